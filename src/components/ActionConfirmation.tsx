@@ -0,0 +1,60 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+import type { PendingAction } from '@/types/support';
+
+const ACTION_TITLES: Record<PendingAction['type'], string> = {
+  cancellation: 'Cancel',
+  return: 'Return',
+};
+
+interface ActionConfirmationProps {
+  action: PendingAction;
+  // Sends the customer's yes together with the action's token, which the server checks
+  onConfirm: (token: string) => void;
+  // Sends any other answer to the agent
+  onAction: (prompt: string) => void;
+  // False once the agent has moved on and the action can no longer be confirmed
+  canConfirm: boolean;
+  disabled?: boolean;
+}
+
+export function ActionConfirmation({ action, onConfirm, onAction, canConfirm, disabled }: ActionConfirmationProps) {
+  return (
+    <Card className="w-full max-w-sm">
+      <CardContent className="space-y-3 p-4">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+          <div>
+            <p className="text-sm font-semibold">
+              {ACTION_TITLES[action.type]} from order {action.order_id}?
+            </p>
+            <ul className="mt-1 list-disc pl-4 text-sm text-muted-foreground">
+              {action.product_names.map((name, index) => {
+                const quantity = action.quantities?.[action.product_ids[index]];
+                return (
+                  <li key={action.product_ids[index] ?? name}>
+                    {quantity ? `${quantity} × ${name}` : name}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </div>
+
+        {canConfirm ? (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => onConfirm(action.token)} disabled={disabled}>
+              Yes, confirm
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onAction("No, don't go ahead")} disabled={disabled}>
+              No
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">No longer awaiting confirmation</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,25 @@
 import { cn } from '@/lib/utils';
 import { User, Bot } from 'lucide-react';
-import type { Message } from '@/types/support';
+import { ProductCarousel } from './ProductCarousel';
+import { ProductComparisonTable } from './ProductComparisonTable';
+import { OrderTimeline } from './OrderTimeline';
+import { ActionConfirmation } from './ActionConfirmation';
+import type { Message, PendingAction } from '@/types/support';
 
 interface ChatMessageProps {
   message: Message;
+  // Sends a follow-up to the agent from buttons inside attached cards
+  onAction?: (prompt: string) => void;
+  // Confirms a pending action by its token
+  onConfirm?: (token: string) => void;
+  actionsDisabled?: boolean;
+  // The action the session is waiting on; older messages' actions can no longer be confirmed
+  awaitingAction?: PendingAction;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+export function ChatMessage({ message, onAction, onConfirm, actionsDisabled, awaitingAction }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const canConfirm = !!message.pendingAction && message.pendingAction.token === awaitingAction?.token;
 
   return (
     <div
@@ -41,6 +53,22 @@ export function ChatMessage({ message }: ChatMessageProps) {
         >
           <p className="text-sm whitespace-pre-wrap">{message.content}</p>
         </div>
+        {message.products && message.products.length > 0 && (
+          <ProductCarousel products={message.products} />
+        )}
+        {message.comparison && <ProductComparisonTable comparison={message.comparison} />}
+        {message.order && (
+          <OrderTimeline order={message.order} onAction={onAction} disabled={actionsDisabled} />
+        )}
+        {message.pendingAction && onAction && onConfirm && (
+          <ActionConfirmation
+            action={message.pendingAction}
+            onConfirm={onConfirm}
+            onAction={onAction}
+            canConfirm={canConfirm}
+            disabled={actionsDisabled}
+          />
+        )}
         <span className="text-xs text-muted-foreground px-2">
           {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
         </span>
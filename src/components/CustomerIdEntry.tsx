@@ -3,13 +3,18 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Headphones, Loader2 } from 'lucide-react';
+import { LanguageSelect } from './LanguageSelect';
+import { DEFAULT_LOCALE } from '@/lib/locales';
+import type { Locale } from '@/types/support';
 
 interface CustomerIdEntryProps {
-  onSubmit: (customerId: string) => Promise<boolean>;
+  // Resolves to the error to show, or null once a code has been sent
+  onSubmit: (customerId: string, locale: Locale) => Promise<string | null>;
 }
 
 export function CustomerIdEntry({ onSubmit }: CustomerIdEntryProps) {
   const [customerId, setCustomerId] = useState('');
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -25,9 +30,9 @@ export function CustomerIdEntry({ onSubmit }: CustomerIdEntryProps) {
     setError('');
 
     try {
-      const isValid = await onSubmit(customerId.trim().toUpperCase());
-      if (!isValid) {
-        setError('Customer ID not found. Please check and try again.');
+      const problem = await onSubmit(customerId.trim().toUpperCase(), locale);
+      if (problem) {
+        setError(problem);
       }
     } catch {
       setError('Something went wrong. Please try again.');
@@ -66,6 +71,7 @@ export function CustomerIdEntry({ onSubmit }: CustomerIdEntryProps) {
                 <p className="text-sm text-destructive text-center">{error}</p>
               )}
             </div>
+            <LanguageSelect value={locale} onChange={setLocale} disabled={isLoading} />
             <Button 
               type="submit" 
               className="w-full" 
@@ -78,7 +84,7 @@ export function CustomerIdEntry({ onSubmit }: CustomerIdEntryProps) {
                   Verifying...
                 </>
               ) : (
-                'Start Conversation'
+                'Send Verification Code'
               )}
             </Button>
           </form>
@@ -0,0 +1,36 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Languages } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SUPPORTED_LOCALES, isSupportedLocale } from '@/lib/locales';
+import type { Locale } from '@/types/support';
+
+interface LanguageSelectProps {
+  value: Locale;
+  onChange: (locale: Locale) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function LanguageSelect({ value, onChange, disabled, className }: LanguageSelectProps) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(next) => {
+        if (isSupportedLocale(next)) onChange(next);
+      }}
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn('gap-2', className)} aria-label="Language">
+        <Languages className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_LOCALES.map((locale) => (
+          <SelectItem key={locale.code} value={locale.code}>
+            {locale.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
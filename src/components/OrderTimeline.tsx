@@ -0,0 +1,230 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, Circle, X, Clock, Truck, IndianRupee } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDate, formatPrice } from '@/lib/format';
+import type { Order, OrderStatus, Refund } from '@/types/support';
+
+const DELIVERY_STEPS: OrderStatus[] = ['Placed', 'Shipped', 'Out for Delivery', 'Delivered'];
+
+// The cancellation policy only covers orders that have not shipped yet
+const CANCELLABLE_STATUSES: OrderStatus[] = ['Placed'];
+
+interface TimelineStep {
+  label: OrderStatus;
+  date?: string;
+  state: 'done' | 'current' | 'upcoming' | 'cancelled';
+}
+
+function buildSteps(order: Order): TimelineStep[] {
+  if (order.order_status === 'Cancelled') {
+    return [
+      { label: 'Placed', date: order.order_date, state: 'done' },
+      { label: 'Cancelled', state: 'cancelled' },
+    ];
+  }
+
+  const currentIndex = DELIVERY_STEPS.indexOf(order.order_status);
+  // Delivered is the last step, so reaching it completes the timeline
+  const isComplete = order.order_status === 'Delivered';
+
+  return DELIVERY_STEPS.map((label, index) => {
+    let state: TimelineStep['state'] = 'upcoming';
+    if (index < currentIndex || (isComplete && index === currentIndex)) {
+      state = 'done';
+    } else if (index === currentIndex) {
+      state = 'current';
+    }
+    // Later steps are dated by the carrier scan that reached them
+    const event = order.shipment_events?.find((e) => e.status === label);
+    return { label, date: index === 0 ? order.order_date : event?.occurred_at, state };
+  });
+}
+
+function StepIcon({ state }: { state: TimelineStep['state'] }) {
+  const iconClass = 'h-3 w-3';
+  return (
+    <div
+      className={cn(
+        'flex h-6 w-6 shrink-0 items-center justify-center rounded-full border-2',
+        state === 'done' && 'border-primary bg-primary text-primary-foreground',
+        state === 'current' && 'border-primary bg-background text-primary',
+        state === 'upcoming' && 'border-muted bg-background text-muted-foreground',
+        state === 'cancelled' && 'border-destructive bg-destructive text-destructive-foreground'
+      )}
+    >
+      {state === 'done' && <Check className={iconClass} />}
+      {state === 'current' && <Circle className={cn(iconClass, 'fill-current')} />}
+      {state === 'cancelled' && <X className={iconClass} />}
+    </div>
+  );
+}
+
+const REFUND_BADGES: Record<Refund['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  initiated: { label: 'Refund initiated', variant: 'secondary' },
+  processing: { label: 'Refund processing', variant: 'secondary' },
+  completed: { label: 'Refunded', variant: 'default' },
+  failed: { label: 'Refund failed', variant: 'destructive' },
+};
+
+function RefundStatusRow({ refund }: { refund: Refund }) {
+  const badge = REFUND_BADGES[refund.status];
+  let detail = `to ${refund.method}`;
+  if (refund.status === 'completed' && refund.processed_at) {
+    detail += ` on ${formatDate(refund.processed_at)}`;
+  } else if (refund.expected_by) {
+    detail += refund.overdue ? ` · was due ${formatDate(refund.expected_by)}` : ` · by ${formatDate(refund.expected_by)}`;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <Badge variant={badge.variant} className="gap-1">
+        <IndianRupee className="h-3 w-3" />
+        {badge.label}
+      </Badge>
+      <span className={cn('text-muted-foreground', refund.overdue && 'text-destructive')}>
+        {formatPrice(refund.amount)} {detail}
+      </span>
+    </div>
+  );
+}
+
+interface OrderTimelineProps {
+  order: Order;
+  // Sends a follow-up request to the agent, e.g. to open product details or start a return
+  onAction?: (prompt: string) => void;
+  disabled?: boolean;
+}
+
+export function OrderTimeline({ order, onAction, disabled }: OrderTimelineProps) {
+  const steps = buildSteps(order);
+  const pendingRequest = order.pending_request;
+  // Named when the request only covers some of the order's items or units
+  const pendingQuantities = pendingRequest?.quantities ?? {};
+  const pendingItems = pendingRequest
+    && (pendingRequest.product_ids.length < order.products.length || Object.keys(pendingQuantities).length > 0)
+    ? order.products.filter((product) => pendingRequest.product_ids.includes(product.product_id))
+    : [];
+  const canCancel = !pendingRequest && CANCELLABLE_STATUSES.includes(order.order_status);
+  const canReturn = !pendingRequest && order.order_status === 'Delivered';
+  const estimate = order.delivery_estimate;
+  const showEstimate = estimate?.estimated_delivery_date && estimate.delivery_status !== 'delivered';
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardContent className="space-y-4 p-4">
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="font-semibold">Order {order.order_id}</p>
+          <p className="text-xs text-muted-foreground">{formatDate(order.order_date)}</p>
+        </div>
+
+        <ol className="space-y-0">
+          {steps.map((step, index) => (
+            <li key={step.label} className="flex gap-3">
+              <div className="flex flex-col items-center">
+                <StepIcon state={step.state} />
+                {index < steps.length - 1 && (
+                  <div className={cn('w-0.5 flex-1 min-h-4', step.state === 'done' ? 'bg-primary' : 'bg-muted')} />
+                )}
+              </div>
+              <div className="pb-3">
+                <p className={cn('text-sm', step.state === 'upcoming' ? 'text-muted-foreground' : 'font-medium')}>
+                  {step.label}
+                </p>
+                {step.date && <p className="text-xs text-muted-foreground">{formatDate(step.date)}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {(order.carrier || showEstimate) && (
+          <div className="space-y-1 rounded-lg border p-2 text-xs">
+            {showEstimate && (
+              <p className={cn('font-medium', estimate.delivery_status === 'delayed' && 'text-destructive')}>
+                {estimate.delivery_status === 'delayed' ? 'Delayed — was due' : 'Arriving by'} {formatDate(estimate.estimated_delivery_date)}
+              </p>
+            )}
+            {order.carrier && (
+              <p className="flex items-center gap-1 text-muted-foreground">
+                <Truck className="h-3 w-3" />
+                {order.carrier}{order.tracking_number && ` · ${order.tracking_number}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Items</p>
+          <ul className="space-y-1">
+            {order.products.map((product) => (
+              <li key={product.product_id} className="flex items-baseline justify-between gap-2">
+                <button
+                  type="button"
+                  className="text-left text-sm text-primary underline-offset-4 hover:underline disabled:pointer-events-none disabled:opacity-50"
+                  onClick={() => onAction?.(`Tell me about ${product.product_name} (${product.product_id})`)}
+                  disabled={disabled || !onAction}
+                >
+                  {product.product_name}
+                  {product.quantity > 1 && <span className="text-muted-foreground"> ×{product.quantity}</span>}
+                </button>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {formatPrice(product.unit_price * product.quantity - product.discount)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-baseline justify-between gap-2 border-t pt-1 text-sm">
+            <span className="text-muted-foreground">
+              {order.shipping_charge > 0 ? `Total incl. ${formatPrice(order.shipping_charge)} shipping` : 'Total'}
+              {order.payment_method && ` · ${order.payment_method}`}
+            </span>
+            <span className="font-medium">{formatPrice(order.total_amount)}</span>
+          </div>
+        </div>
+
+        {pendingRequest && (
+          <div className="flex items-center gap-2 rounded-lg bg-muted p-2 text-xs text-muted-foreground">
+            <Clock className="h-4 w-4 shrink-0" />
+            <span>
+              {pendingRequest.type === 'cancellation' ? 'Cancellation' : 'Return'} request {pendingRequest.status_label}
+              {pendingItems.length > 0 && ` for ${pendingItems
+                .map((product) => {
+                  const quantity = pendingQuantities[product.product_id];
+                  return quantity ? `${quantity} × ${product.product_name}` : product.product_name;
+                })
+                .join(', ')}`}
+            </span>
+          </div>
+        )}
+
+        {order.refund && <RefundStatusRow refund={order.refund} />}
+
+        {onAction && (canCancel || canReturn) && (
+          <div className="flex gap-2">
+            {canCancel && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onAction(`I want to cancel order ${order.order_id}`)}
+                disabled={disabled}
+              >
+                Cancel order
+              </Button>
+            )}
+            {canReturn && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onAction(`I want to return order ${order.order_id}`)}
+                disabled={disabled}
+              >
+                Return items
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
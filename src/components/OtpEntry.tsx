@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+
+const OTP_LENGTH = 6;
+
+interface OtpEntryProps {
+  customerId: string;
+  onVerify: (code: string) => Promise<boolean>;
+  // Resolves to the error to show, or null once a new code has been sent
+  onResend: () => Promise<string | null>;
+  onBack: () => void;
+}
+
+export function OtpEntry({ customerId, onVerify, onResend, onBack }: OtpEntryProps) {
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const verify = async (value: string) => {
+    if (value.length !== OTP_LENGTH) {
+      setError('Please enter the 6-digit code');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const isValid = await onVerify(value);
+      if (!isValid) {
+        setError('Incorrect or expired code. Please try again.');
+        setCode('');
+      }
+    } catch {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+    setCode('');
+
+    try {
+      const problem = await onResend();
+      if (problem) {
+        setError(problem);
+      } else {
+        setNotice('A new code has been sent.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
+            <ShieldCheck className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Verify it's you</CardTitle>
+          <CardDescription>
+            Enter the 6-digit code we sent to the contact details on file for {customerId}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              verify(code);
+            }}
+            className="space-y-4"
+          >
+            <div className="flex flex-col items-center space-y-2">
+              <InputOTP
+                maxLength={OTP_LENGTH}
+                value={code}
+                onChange={(value) => {
+                  setCode(value);
+                  setError('');
+                }}
+                onComplete={verify}
+                disabled={isLoading}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              {error && (
+                <p className="text-sm text-destructive text-center">{error}</p>
+              )}
+              {notice && !error && (
+                <p className="text-sm text-muted-foreground text-center">{notice}</p>
+              )}
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              size="lg"
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                'Verify and Continue'
+              )}
+            </Button>
+          </form>
+          <div className="mt-4 flex justify-between text-xs">
+            <Button variant="link" size="sm" className="px-0 text-xs" onClick={onBack} disabled={isLoading}>
+              Use a different Customer ID
+            </Button>
+            <Button variant="link" size="sm" className="px-0 text-xs" onClick={handleResend} disabled={isLoading}>
+              Resend code
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
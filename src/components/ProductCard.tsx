@@ -0,0 +1,78 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Star, Truck, RotateCcw, Ban } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/lib/format';
+import type { Product } from '@/types/support';
+
+// Below this many units we show an explicit "only N left"
+const LOW_STOCK_THRESHOLD = 5;
+
+interface ProductCardProps {
+  product: Product;
+  className?: string;
+}
+
+function StockStatus({ stock }: { stock: number }) {
+  if (stock === 0) {
+    return <span className="text-destructive">Out of stock</span>;
+  }
+  if (stock <= LOW_STOCK_THRESHOLD) {
+    return <span className="text-orange-600 dark:text-orange-400">Only {stock} left</span>;
+  }
+  return <span className="text-green-600 dark:text-green-400">In stock</span>;
+}
+
+export function ProductCard({ product, className }: ProductCardProps) {
+  return (
+    <Card className={cn('h-full', className)}>
+      <CardContent className="flex h-full flex-col gap-2 p-4">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="truncate font-semibold" title={product.product_name}>{product.product_name}</p>
+            <p className="text-xs text-muted-foreground">{product.category} · {product.product_id}</p>
+          </div>
+          {product.discount_percentage ? (
+            <Badge variant="destructive" className="shrink-0">{product.discount_percentage}% off</Badge>
+          ) : null}
+        </div>
+
+        <div className="flex items-baseline gap-2">
+          <p className="text-lg font-bold">{formatPrice(product.pricing?.final_price ?? product.price)}</p>
+          {product.pricing && product.pricing.savings > 0 && (
+            <s className="text-sm text-muted-foreground">{formatPrice(product.pricing.list_price)}</s>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 text-sm">
+          <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+          <span className="font-medium">{product.rating.toFixed(1)}</span>
+          <span className="text-muted-foreground">({product.review_count.toLocaleString('en-IN')} reviews)</span>
+        </div>
+
+        {product.reason && <p className="text-xs text-primary">{product.reason}</p>}
+
+        <div className="mt-auto space-y-1 text-xs">
+          <StockStatus stock={product.stock_available} />
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <Truck className="h-3 w-3" />
+            Delivery in {product.delivery_time_days} {product.delivery_time_days === 1 ? 'day' : 'days'}
+          </p>
+          <p className="flex items-center gap-1 text-muted-foreground">
+            {product.return_eligible ? (
+              <>
+                <RotateCcw className="h-3 w-3" />
+                Eligible for return
+              </>
+            ) : (
+              <>
+                <Ban className="h-3 w-3" />
+                Not returnable
+              </>
+            )}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
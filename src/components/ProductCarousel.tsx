@@ -0,0 +1,33 @@
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { ProductCard } from './ProductCard';
+import type { Product } from '@/types/support';
+
+interface ProductCarouselProps {
+  products: Product[];
+}
+
+export function ProductCarousel({ products }: ProductCarouselProps) {
+  if (products.length === 1) {
+    return <ProductCard product={products[0]} className="w-64" />;
+  }
+
+  return (
+    <Carousel opts={{ align: 'start' }} className="w-full max-w-sm px-10">
+      <CarouselContent>
+        {products.map((product) => (
+          <CarouselItem key={product.product_id}>
+            <ProductCard product={product} />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious className="left-0" />
+      <CarouselNext className="right-0" />
+    </Carousel>
+  );
+}
@@ -0,0 +1,106 @@
+import type { ReactNode } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/lib/format';
+import type { ComparedProduct, ProductComparison } from '@/types/support';
+
+type BestAttribute = keyof ProductComparison['best'];
+
+interface ComparisonRow {
+  label: string;
+  // Highlights the products that come out ahead on this row
+  best?: BestAttribute;
+  render: (product: ComparedProduct) => ReactNode;
+}
+
+const ROWS: ComparisonRow[] = [
+  {
+    label: 'Price',
+    best: 'price',
+    render: (product) => (
+      <>
+        {formatPrice(product.price)}
+        {product.discount_percentage > 0 && (
+          <span className="block text-xs font-normal text-muted-foreground">
+            <s>{formatPrice(product.list_price)}</s> {product.discount_percentage}% off
+          </span>
+        )}
+      </>
+    ),
+  },
+  {
+    label: 'Rating',
+    best: 'rating',
+    render: (product) => (
+      <span className="inline-flex items-center gap-1">
+        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+        {product.rating.toFixed(1)}
+      </span>
+    ),
+  },
+  {
+    label: 'Reviews',
+    best: 'review_count',
+    render: (product) => product.review_count.toLocaleString('en-IN'),
+  },
+  {
+    label: 'Stock',
+    render: (product) => (product.in_stock ? 'In stock' : <span className="text-destructive">Out of stock</span>),
+  },
+  {
+    label: 'Delivery',
+    best: 'delivery_time_days',
+    render: (product) => `${product.delivery_time_days} ${product.delivery_time_days === 1 ? 'day' : 'days'}`,
+  },
+  {
+    label: 'Returns',
+    render: (product) => (product.return_eligible ? 'Eligible' : 'Not returnable'),
+  },
+];
+
+interface ProductComparisonTableProps {
+  comparison: ProductComparison;
+}
+
+export function ProductComparisonTable({ comparison }: ProductComparisonTableProps) {
+  const { products, best } = comparison;
+  // A row where every product ties has no winner worth pointing out
+  const isHighlighted = (row: ComparisonRow, productId: string) =>
+    row.best !== undefined && best[row.best].length < products.length && best[row.best].includes(productId);
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardContent className="p-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-20" />
+              {products.map((product) => (
+                <TableHead key={product.product_id} className="text-foreground">
+                  {product.product_name}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ROWS.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell className="text-xs text-muted-foreground">{row.label}</TableCell>
+                {products.map((product) => (
+                  <TableCell
+                    key={product.product_id}
+                    className={cn(isHighlighted(row, product.product_id) && 'font-semibold text-primary')}
+                  >
+                    {row.render(product)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+import { Sparkles } from 'lucide-react';
+import { formatPrice } from '@/lib/format';
+import type { Product } from '@/types/support';
+
+interface RecommendedProductsProps {
+  products: Product[];
+  // Asks the agent about the chosen product
+  onAction: (prompt: string) => void;
+  disabled?: boolean;
+}
+
+export function RecommendedProducts({ products, onAction, disabled }: RecommendedProductsProps) {
+  return (
+    <div className="mt-6 w-full max-w-2xl text-left">
+      <p className="mb-2 flex items-center gap-1 text-sm font-medium">
+        <Sparkles className="h-4 w-4 text-primary" />
+        Recommended for you
+      </p>
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {products.map((product) => (
+          <button
+            key={product.product_id}
+            type="button"
+            className="w-44 shrink-0 rounded-lg border p-3 text-left transition-colors hover:bg-muted disabled:pointer-events-none disabled:opacity-50"
+            onClick={() => onAction(`Tell me about ${product.product_name} (${product.product_id})`)}
+            disabled={disabled}
+          >
+            <p className="truncate text-sm font-semibold" title={product.product_name}>{product.product_name}</p>
+            <p className="text-sm">{formatPrice(product.pricing?.final_price ?? product.price)}</p>
+            {product.reason && <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">{product.reason}</p>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
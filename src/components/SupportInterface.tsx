@@ -1,22 +1,68 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { VoiceButton } from './VoiceButton';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 import { TranscriptPanel } from './TranscriptPanel';
+import { LanguageSelect } from './LanguageSelect';
+import { RecommendedProducts } from './RecommendedProducts';
 import { useSpeech } from '@/hooks/useSpeech';
 import { useConversation } from '@/hooks/useConversation';
+import { useRecommendations } from '@/hooks/useRecommendations';
 import { LogOut, Trash2, VolumeX, Volume2, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { Locale } from '@/types/support';
+
+// Short status lines shown while the agent runs a tool
+const TOOL_STATUS_LABELS: Record<string, string> = {
+  searchProducts: 'Searching products...',
+  getProductDetails: 'Looking up product details...',
+  getProductFAQs: 'Checking product FAQs...',
+  compareProducts: 'Comparing products...',
+  getRecommendations: 'Finding products for you...',
+  getOffers: 'Checking offers...',
+  trackOrder: 'Tracking your order...',
+  getDeliveryEstimate: 'Checking the delivery date...',
+  getCustomerOrders: 'Fetching your orders...',
+  getRefundStatus: 'Checking your refund...',
+  initiateCancellation: 'Checking the cancellation...',
+  initiateReturn: 'Checking return eligibility...',
+  confirmAction: 'Submitting your request...',
+  getPolicy: 'Checking our policies...',
+};
 
 interface SupportInterfaceProps {
   customerId: string;
+  initialLocale: Locale;
   onLogout: () => void;
 }
 
-export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps) {
+export function SupportInterface({ customerId, initialLocale, onLogout }: SupportInterfaceProps) {
   const { toast } = useToast();
+  // Finished voice turns (including interruptions) are submitted through this ref
+  const voiceSubmitRef = useRef<(transcript: string) => void>();
+  const handleTranscript = useCallback((heard: string) => {
+    voiceSubmitRef.current?.(heard);
+  }, []);
+
+  const {
+    messages,
+    isLoading,
+    isStreaming,
+    activeTool,
+    tokenUsage,
+    error,
+    sendMessage,
+    clearHistory,
+    initSession,
+    context,
+    setLocale,
+  } = useConversation();
+
+  const locale = context?.locale ?? initialLocale;
+  const { data: recommendations } = useRecommendations(customerId);
+
   const {
     voiceState,
     transcript,
@@ -26,34 +72,22 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
     errorMessage: voiceError,
     startListening,
     stopListening,
-    speak,
-    stopSpeaking,
+    enqueueSpeech,
+    flushSpeech,
+    cancelSpeech,
     toggleMute,
     clearTranscript,
-  } = useSpeech();
-
-  const {
-    messages,
-    isLoading,
-    error,
-    sendMessage,
-    clearHistory,
-    initSession,
-  } = useConversation();
+  } = useSpeech({ lang: locale, bargeIn: true, onTranscript: handleTranscript });
 
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const processingRef = useRef(false);
-  const transcriptRef = useRef('');
-
-  // Keep transcriptRef in sync with transcript state
-  useEffect(() => {
-    transcriptRef.current = transcript;
-  }, [transcript]);
+  // Voice message captured while a previous reply was still being fetched
+  const [queuedVoiceMessage, setQueuedVoiceMessage] = useState<string | null>(null);
 
   // Initialize session
   useEffect(() => {
-    initSession(customerId);
-  }, [customerId, initSession]);
+    initSession(customerId, initialLocale);
+  }, [customerId, initialLocale, initSession]);
 
   // Scroll to bottom on new messages
   useEffect(() => {
@@ -77,42 +111,57 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
   }, [error, toast]);
 
   // Handle voice message submission
-  const handleVoiceSubmit = useCallback(async () => {
-    if (!transcript.trim() || processingRef.current) return;
+  const handleVoiceSubmit = useCallback(async (spokenText: string) => {
+    const message = spokenText.trim();
+    if (!message) return;
+
+    if (processingRef.current) {
+      setQueuedVoiceMessage(message);
+      return;
+    }
 
     processingRef.current = true;
-    const message = transcript.trim();
     clearTranscript();
 
+    cancelSpeech();
     try {
-      const response = await sendMessage(message);
-      speak(response);
+      // Speak each sentence as soon as it streams in
+      await sendMessage(message, { onDelta: enqueueSpeech });
     } catch {
       // Error is handled by the hook
     } finally {
+      flushSpeech();
       processingRef.current = false;
     }
-  }, [transcript, clearTranscript, sendMessage, speak]);
+  }, [clearTranscript, sendMessage, enqueueSpeech, flushSpeech, cancelSpeech]);
 
-  // Handle stop listening - submit if there's transcript
-  const handleStopListening = useCallback(() => {
-    stopListening();
-    // Use ref to get current transcript value (avoids stale closure)
-    const currentTranscript = transcriptRef.current;
-    if (currentTranscript.trim()) {
-      handleVoiceSubmit();
-    }
-  }, [stopListening, handleVoiceSubmit]);
+  useEffect(() => {
+    voiceSubmitRef.current = handleVoiceSubmit;
+  }, [handleVoiceSubmit]);
+
+  // Submit an interruption once the reply it cut into has finished loading
+  useEffect(() => {
+    if (!queuedVoiceMessage || isLoading) return;
+    setQueuedVoiceMessage(null);
+    handleVoiceSubmit(queuedVoiceMessage);
+  }, [queuedVoiceMessage, isLoading, handleVoiceSubmit]);
 
   // Handle text message
-  const handleTextSend = useCallback(async (message: string) => {
+  const handleTextSend = useCallback(async (message: string, options?: { confirmationToken?: string }) => {
+    cancelSpeech();
     try {
-      const response = await sendMessage(message);
-      speak(response);
+      await sendMessage(message, { ...options, onDelta: enqueueSpeech });
     } catch {
       // Error is handled by the hook
+    } finally {
+      flushSpeech();
     }
-  }, [sendMessage, speak]);
+  }, [sendMessage, enqueueSpeech, flushSpeech, cancelSpeech]);
+
+  // The Confirm button ties the customer's yes to the action it was shown
+  const handleConfirm = useCallback((token: string) => {
+    handleTextSend('Yes, confirm', { confirmationToken: token });
+  }, [handleTextSend]);
 
   // Handle global keyboard shortcuts
   useEffect(() => {
@@ -125,7 +174,7 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
         if (!isInputActive) {
           e.preventDefault();
           if (isListening) {
-            handleStopListening();
+            stopListening();
           } else {
             startListening();
           }
@@ -135,15 +184,15 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isListening, handleStopListening, startListening]);
+  }, [isListening, stopListening, startListening]);
 
   // Handle clear history
   const handleClearHistory = () => {
-    stopSpeaking();
+    cancelSpeech();
     clearHistory();
     toast({
-      title: 'History Cleared',
-      description: 'Your conversation history has been deleted.',
+      title: 'New Conversation',
+      description: 'Your previous conversation is still saved to your account.',
     });
   };
 
@@ -157,10 +206,25 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
           </div>
           <div>
             <h1 className="font-semibold">Customer Support</h1>
-            <p className="text-xs text-muted-foreground">Customer: {customerId}</p>
+            <p className="text-xs text-muted-foreground">
+              Customer: {customerId}
+              {tokenUsage && (
+                <span
+                  title={`${tokenUsage.promptTokens.toLocaleString()} prompt + ${tokenUsage.completionTokens.toLocaleString()} completion tokens`}
+                >
+                  {' '}· {tokenUsage.totalTokens.toLocaleString()} tokens this session
+                </span>
+              )}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <LanguageSelect
+            value={locale}
+            onChange={setLocale}
+            disabled={isLoading}
+            className="h-9 w-auto"
+          />
           <Button
             variant="ghost"
             size="icon"
@@ -201,14 +265,25 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
                 I can help you with product searches, order tracking, returns, cancellations, and policy questions.
                 {isMicAvailable ? ' Tap the microphone or type your question below.' : ' Type your question below.'}
               </p>
+              {recommendations && recommendations.length > 0 && (
+                <RecommendedProducts products={recommendations} onAction={handleTextSend} disabled={isLoading} />
+              )}
             </div>
           ) : (
             messages.map((message) => (
-              <ChatMessage key={message.id} message={message} />
+              <ChatMessage
+                key={message.id}
+                message={message}
+                onAction={handleTextSend}
+                onConfirm={handleConfirm}
+                actionsDisabled={isLoading}
+                awaitingAction={context?.pendingAction}
+              />
             ))
           )}
 
-          {isLoading && (
+          {/* Typing indicator until the first streamed chunk arrives */}
+          {isLoading && !isStreaming && (
             <div className="flex gap-3 p-4">
               <div className="flex h-8 w-8 items-center justify-center rounded-full bg-secondary">
                 <span className="text-xs">AI</span>
@@ -217,6 +292,11 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
                 <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '0ms' }} />
                 <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '150ms' }} />
                 <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '300ms' }} />
+                {activeTool && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {TOOL_STATUS_LABELS[activeTool] ?? 'Working on it...'}
+                  </span>
+                )}
               </div>
             </div>
           )}
@@ -242,8 +322,9 @@ export function SupportInterface({ customerId, onLogout }: SupportInterfaceProps
               voiceState={isLoading ? 'processing' : voiceState}
               isListening={isListening}
               isMicAvailable={isMicAvailable}
+              canBargeIn
               onStartListening={startListening}
-              onStopListening={handleStopListening}
+              onStopListening={stopListening}
             />
           </div>
         )}
@@ -6,6 +6,7 @@ interface VoiceButtonProps {
   voiceState: VoiceState;
   isListening: boolean;
   isMicAvailable: boolean;
+  canBargeIn?: boolean;
   onStartListening: () => void;
   onStopListening: () => void;
 }
@@ -14,6 +15,7 @@ export function VoiceButton({
   voiceState,
   isListening,
   isMicAvailable,
+  canBargeIn = false,
   onStartListening,
   onStopListening,
 }: VoiceButtonProps) {
@@ -36,7 +38,7 @@ export function VoiceButton({
     if (!isMicAvailable) return 'Mic unavailable';
     if (voiceState === 'listening') return 'Listening...';
     if (voiceState === 'processing') return 'Processing...';
-    if (voiceState === 'speaking') return 'Tap to interrupt';
+    if (voiceState === 'speaking') return canBargeIn ? 'Speak or tap to interrupt' : 'Tap to interrupt';
     return 'Tap to speak';
   };
 
@@ -1,57 +1,138 @@
-import { useState, useCallback, useEffect } from 'react';
-import type { Message, SessionContext, ConversationHistory } from '@/types/support';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Message, SessionContext, ConversationHistory, Locale, SessionSummary, TokenUsage } from '@/types/support';
+import { readServerSentEvents } from '@/lib/sse';
+import { postToSupportFunction } from '@/lib/supportApi';
+import { DEFAULT_LOCALE } from '@/lib/locales';
+import { attachToolResults } from '@/lib/toolResults';
 
 const STORAGE_KEY_PREFIX = 'customer_support_history_';
 
+// Offline cache of the current conversation
+function readCachedHistory(customerId: string): ConversationHistory | null {
+  const stored = localStorage.getItem(STORAGE_KEY_PREFIX + customerId);
+  if (!stored) return null;
+  try {
+    const history: ConversationHistory = JSON.parse(stored);
+    return {
+      ...history,
+      messages: history.messages.map(m => ({
+        ...m,
+        timestamp: new Date(m.timestamp)
+      }))
+    };
+  } catch (e) {
+    console.error('Failed to load conversation history:', e);
+    return null;
+  }
+}
+
+interface ServerHistory {
+  sessionId: string;
+  context: Partial<SessionContext>;
+  messages: (Omit<Message, 'timestamp'> & { timestamp: string })[];
+}
+
+// Most recent conversation saved from any device, or null when offline or there is none
+async function fetchLatestHistory(): Promise<ServerHistory | null> {
+  const sessionsResponse = await postToSupportFunction({ action: 'listSessions' });
+  if (!sessionsResponse.ok) return null;
+  const { sessions }: { sessions: SessionSummary[] } = await sessionsResponse.json();
+  if (sessions.length === 0) return null;
+
+  const historyResponse = await postToSupportFunction({ action: 'loadHistory', sessionId: sessions[0].sessionId });
+  if (!historyResponse.ok) return null;
+  return historyResponse.json();
+}
+
+interface SendMessageOptions {
+  // Called with each chunk of assistant text as it streams in
+  onDelta?: (delta: string) => void;
+  // Set when the customer pressed Confirm; the server only commits an action whose token matches
+  confirmationToken?: string;
+}
+
 interface UseConversationReturn {
   messages: Message[];
   context: SessionContext | null;
   isLoading: boolean;
+  isStreaming: boolean;
+  activeTool: string | null;
+  // Tokens spent by the model across this session's turns
+  tokenUsage: TokenUsage | null;
   error: string | null;
-  sendMessage: (content: string) => Promise<string>;
+  sendMessage: (content: string, options?: SendMessageOptions) => Promise<string>;
   clearHistory: () => void;
-  initSession: (customerId: string) => void;
+  initSession: (customerId: string, locale?: Locale) => void;
+  setLocale: (locale: Locale) => void;
 }
 
 export function useConversation(): UseConversationReturn {
   const [messages, setMessages] = useState<Message[]>([]);
   const [context, setContext] = useState<SessionContext | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [activeTool, setActiveTool] = useState<string | null>(null);
+  const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Set once the customer acts locally, so a late server sync never overwrites their turn
+  const hasLocalChangesRef = useRef(false);
 
-  // Load conversation from localStorage when customer ID changes
+  // Replace the cached conversation with the server's copy once it arrives
   useEffect(() => {
     if (!context?.customerId) return;
+    let cancelled = false;
 
-    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + context.customerId);
-    if (stored) {
-      try {
-        const history: ConversationHistory = JSON.parse(stored);
+    fetchLatestHistory()
+      .then(history => {
+        if (!history || cancelled || hasLocalChangesRef.current) return;
         setMessages(history.messages.map(m => ({
           ...m,
           timestamp: new Date(m.timestamp)
         })));
-      } catch (e) {
-        console.error('Failed to load conversation history:', e);
-      }
-    }
+        setContext(prev => prev && {
+          ...prev,
+          lastOrderId: history.context.lastOrderId,
+          lastProductId: history.context.lastProductId,
+          lastIntent: history.context.lastIntent,
+          lastSearch: history.context.lastSearch,
+          // The server still holds this action, so its confirm card stays live on this device
+          pendingAction: history.context.pendingAction,
+          summary: history.context.summary,
+          sessionId: history.sessionId
+        });
+      })
+      .catch(e => {
+        // Offline: keep working from the local cache
+        console.error('Failed to sync conversation history:', e);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [context?.customerId]);
 
-  // Save conversation to localStorage whenever messages change
+  // Save conversation to localStorage whenever messages change (once a streamed reply settles)
   useEffect(() => {
-    if (!context?.customerId || messages.length === 0) return;
+    if (!context?.customerId || messages.length === 0 || isStreaming) return;
 
     const history: ConversationHistory = {
       customerId: context.customerId,
+      sessionId: context.sessionId,
       messages,
       lastUpdated: new Date()
     };
     localStorage.setItem(STORAGE_KEY_PREFIX + context.customerId, JSON.stringify(history));
-  }, [messages, context?.customerId]);
+  }, [messages, context?.customerId, context?.sessionId, isStreaming]);
 
-  const initSession = useCallback((customerId: string) => {
+  const initSession = useCallback((customerId: string, locale: Locale = DEFAULT_LOCALE) => {
+    const cached = readCachedHistory(customerId);
+    hasLocalChangesRef.current = false;
+    setMessages(cached?.messages ?? []);
+    setTokenUsage(null);
     setContext({
       customerId,
+      sessionId: cached?.sessionId ?? crypto.randomUUID(),
+      locale,
       lastOrderId: undefined,
       lastProductId: undefined,
       lastIntent: undefined
@@ -59,7 +140,7 @@ export function useConversation(): UseConversationReturn {
     setError(null);
   }, []);
 
-  const sendMessage = useCallback(async (content: string): Promise<string> => {
+  const sendMessage = useCallback(async (content: string, options?: SendMessageOptions): Promise<string> => {
     if (!context?.customerId) {
       throw new Error('No customer session');
     }
@@ -71,47 +152,91 @@ export function useConversation(): UseConversationReturn {
       timestamp: new Date()
     };
 
+    hasLocalChangesRef.current = true;
     setMessages(prev => [...prev, userMessage]);
     setIsLoading(true);
     setError(null);
 
+    const assistantMessageId = crypto.randomUUID();
+    const assistantTimestamp = new Date();
+
+    // Insert the assistant message on the first chunk, then update it in place
+    const upsertAssistantMessage = (text: string, attachments?: Partial<Message>) => {
+      setMessages(prev => {
+        if (!prev.some(m => m.id === assistantMessageId)) {
+          return [...prev, { id: assistantMessageId, role: 'assistant', content: text, timestamp: assistantTimestamp, ...attachments }];
+        }
+        return prev.map(m => m.id === assistantMessageId ? { ...m, content: text, ...attachments } : m);
+      });
+    };
+
+    // Turns already folded into the summary stay on the client. Matched by ID, as a synced
+    // history need not line up with the messages this device has seen.
+    const history = [...messages, userMessage];
+    const lastSummarised = history.findIndex(m => m.id === context.summary?.lastMessageId);
+
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/customer-support`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map(m => ({
-            role: m.role,
-            content: m.content
-          })),
-          context
-        })
+      const response = await postToSupportFunction({
+        messages: history.slice(lastSummarised + 1).map(m => ({
+          id: m.id,
+          role: m.role,
+          content: m.content
+        })),
+        context,
+        // Saved server-side under these IDs so every device sees the same messages
+        messageId: userMessage.id,
+        replyId: assistantMessageId,
+        confirmationToken: options?.confirmationToken,
+        stream: true
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json().catch(() => ({}));
         throw new Error(errorData.error || 'Failed to get response');
       }
 
-      const data = await response.json();
-      
-      // Update context if returned
-      if (data.context) {
-        setContext(data.context);
-      }
+      let reply = '';
+
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        const payload = JSON.parse(data);
 
-      const assistantMessage: Message = {
-        id: crypto.randomUUID(),
-        role: 'assistant',
-        content: data.content,
-        timestamp: new Date()
-      };
+        switch (event) {
+          case 'tool':
+            setActiveTool(payload.status === 'running' ? payload.name : null);
+            break;
+          case 'delta':
+            reply += payload.content;
+            setIsStreaming(true);
+            upsertAssistantMessage(reply);
+            options?.onDelta?.(payload.content);
+            break;
+          case 'context':
+            // Update context if returned
+            if (payload.context) {
+              setContext(payload.context);
+            }
+            // Show the products/order the agent looked up alongside its reply
+            if (payload.toolResults?.length) {
+              upsertAssistantMessage(reply, attachToolResults(payload.toolResults));
+            }
+            if (payload.usage) {
+              setTokenUsage(prev => ({
+                promptTokens: (prev?.promptTokens ?? 0) + payload.usage.promptTokens,
+                completionTokens: (prev?.completionTokens ?? 0) + payload.usage.completionTokens,
+                totalTokens: (prev?.totalTokens ?? 0) + payload.usage.totalTokens
+              }));
+            }
+            break;
+          case 'error':
+            throw new Error(payload.error || 'Failed to get response');
+        }
+      }
 
-      setMessages(prev => [...prev, assistantMessage]);
-      return data.content;
+      // A reply with no text (e.g. only a tool call) gets no empty bubble
+      if (reply) {
+        upsertAssistantMessage(reply);
+      }
+      return reply;
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Something went wrong';
@@ -119,23 +244,47 @@ export function useConversation(): UseConversationReturn {
       throw err;
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
+      setActiveTool(null);
     }
   }, [messages, context]);
 
+  // Switch the language for recognition, speech and the agent's replies mid-session
+  const setLocale = useCallback((locale: Locale) => {
+    setContext(prev => prev ? { ...prev, locale } : prev);
+  }, []);
+
+  // Start a fresh conversation; the previous one stays saved on the server
   const clearHistory = useCallback(() => {
     if (context?.customerId) {
       localStorage.removeItem(STORAGE_KEY_PREFIX + context.customerId);
     }
+    hasLocalChangesRef.current = true;
     setMessages([]);
+    setContext(prev => prev && {
+      ...prev,
+      sessionId: crypto.randomUUID(),
+      lastOrderId: undefined,
+      lastProductId: undefined,
+      lastIntent: undefined,
+      lastSearch: undefined,
+      summary: undefined,
+      pendingAction: undefined
+    });
+    setTokenUsage(null);
   }, [context?.customerId]);
 
   return {
     messages,
     context,
     isLoading,
+    isStreaming,
+    activeTool,
+    tokenUsage,
     error,
     sendMessage,
     clearHistory,
-    initSession
+    initSession,
+    setLocale
   };
 }
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { postToSupportFunction } from '@/lib/supportApi';
+import { getRecommendedProducts } from '@/lib/toolResults';
+import type { Product } from '@/types/support';
+
+// Suggestions only decorate the welcome screen, so failures fall back to showing none
+async function fetchRecommendations(): Promise<Product[]> {
+  const response = await postToSupportFunction({ action: 'getRecommendations' });
+  if (!response.ok) return [];
+  return getRecommendedProducts(await response.json());
+}
+
+// Products suggested for the signed-in customer, from their order history
+export function useRecommendations(customerId: string) {
+  return useQuery({
+    queryKey: ['recommendations', customerId],
+    queryFn: fetchRecommendations,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
@@ -1,5 +1,49 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import type { VoiceState } from '@/types/support';
+import { extractSentences } from '@/lib/sentences';
+import { DEFAULT_LOCALE } from '@/lib/locales';
+import { countWords, isLikelyEcho } from '@/lib/echo';
+import {
+  selectRecognizerProvider,
+  type RecognizedPhrase,
+  type RecognizerId,
+  type RecognizerPreference,
+  type SpeechRecognizer,
+} from '@/lib/speech/recognizer';
+import { selectSynthesizer, type SynthesizerId, type SynthesizerPreference } from '@/lib/speech/synthesizer';
+
+// Minimum words heard over the agent before it is treated as an interruption
+const BARGE_IN_MIN_WORDS = 2;
+
+interface UseSpeechOptions {
+  // BCP 47 locale used for both recognition and voice selection
+  lang?: string;
+  // Recognition backend; 'auto' picks the first one this browser supports
+  recognizer?: RecognizerPreference;
+  // Text-to-speech backend; 'server' plays the brand voice rendered by the edge function
+  synthesizer?: SynthesizerPreference;
+  // Keep a listener running while the agent speaks so the customer can interrupt by voice
+  bargeIn?: boolean;
+  // Receives what the customer said once they finish a turn (including interruptions)
+  onTranscript?: (transcript: string) => void;
+}
+
+const DEFAULT_RECOGNIZER = (import.meta.env.VITE_SPEECH_RECOGNIZER as RecognizerPreference | undefined) || 'auto';
+const DEFAULT_SYNTHESIZER = (import.meta.env.VITE_SPEECH_SYNTHESIZER as SynthesizerPreference | undefined) || 'auto';
+
+// Join recognised phrases into final text and the still-changing interim tail
+function joinPhrases(phrases: RecognizedPhrase[]) {
+  let fullFinal = '';
+  let currentInterim = '';
+  for (const phrase of phrases) {
+    if (phrase.isFinal) {
+      fullFinal += phrase.transcript;
+    } else {
+      currentInterim += phrase.transcript;
+    }
+  }
+  return { fullFinal, currentInterim };
+}
 
 interface UseSpeechReturn {
   voiceState: VoiceState;
@@ -7,36 +51,72 @@ interface UseSpeechReturn {
   isListening: boolean;
   isSpeaking: boolean;
   isMicAvailable: boolean;
+  recognizerId: RecognizerId | null;
+  synthesizerId: SynthesizerId | null;
   isMuted: boolean;
   errorMessage: string | null;
   startListening: () => void;
   stopListening: () => void;
   speak: (text: string) => void;
-  stopSpeaking: () => void;
+  enqueueSpeech: (text: string) => void;
+  flushSpeech: () => void;
+  cancelSpeech: () => void;
   toggleMute: () => void;
   clearTranscript: () => void;
 }
 
-export function useSpeech(): UseSpeechReturn {
+export function useSpeech({
+  lang = DEFAULT_LOCALE,
+  recognizer = DEFAULT_RECOGNIZER,
+  synthesizer: synthesizerPreference = DEFAULT_SYNTHESIZER,
+  bargeIn = false,
+  onTranscript,
+}: UseSpeechOptions = {}): UseSpeechReturn {
   const [voiceState, setVoiceState] = useState<VoiceState>('idle');
   const [transcript, setTranscript] = useState('');
   const [isMuted, setIsMuted] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   // Check browser support once - this is the only thing that permanently disables mic
-  const SpeechRecognition = typeof window !== 'undefined'
-    ? (window.SpeechRecognition || window.webkitSpeechRecognition)
-    : null;
-  const [isMicAvailable, setIsMicAvailable] = useState(!!SpeechRecognition);
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const recognitionRef = useRef<any>(null);
-  const synthesisRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const recognizerProvider = useMemo(() => selectRecognizerProvider(recognizer), [recognizer]);
+  const [isMicAvailable, setIsMicAvailable] = useState(!!recognizerProvider);
+  const synthesizer = useMemo(() => selectSynthesizer(synthesizerPreference), [synthesizerPreference]);
+
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+  const synthesisRef = useRef<object | null>(null); // Token for the chunk currently being spoken
   const isListeningRef = useRef(false); // Track user intent to listen
+  const awaitingFinalRef = useRef(false); // Stopped before anything was heard; the recognizer may still deliver it
   const errorTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const finalTranscriptRef = useRef(''); // Track accumulated final transcript
+  const liveTranscriptRef = useRef(''); // Final + interim text currently shown
   const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const voicesLoadedRef = useRef(false);
+  const speechQueueRef = useRef<string[]>([]); // Complete sentences waiting to be spoken
+  const pendingTextRef = useRef(''); // Streamed text not yet ending in a sentence boundary
+  const speechClosedRef = useRef(true); // No more text will be enqueued for this reply
+  const speechInterruptedRef = useRef(false); // Customer took the floor; drop the rest of this reply
+  const spokenTextRef = useRef(''); // What the agent has said this reply, for echo detection
+  const bargeInRecognitionRef = useRef<SpeechRecognizer | null>(null);
+  const isBargingInRef = useRef(false); // Customer is currently talking over the agent
+  const onTranscriptRef = useRef(onTranscript);
+
+  useEffect(() => {
+    onTranscriptRef.current = onTranscript;
+  }, [onTranscript]);
+
+  // Drop the recognizer instance when the backend or language changes so the next start uses the new one
+  useEffect(() => {
+    setIsMicAvailable(!!recognizerProvider);
+    return () => {
+      awaitingFinalRef.current = false;
+      try {
+        recognitionRef.current?.abort();
+      } catch {
+        // Already stopped
+      }
+      recognitionRef.current = null;
+    };
+  }, [recognizerProvider, lang]);
 
   // Clear error after a delay
   const clearErrorAfterDelay = useCallback((delay = 3000) => {
@@ -71,8 +151,27 @@ export function useSpeech(): UseSpeechReturn {
     };
   }, []);
 
+  const resetSpeechQueue = useCallback(() => {
+    speechQueueRef.current = [];
+    pendingTextRef.current = '';
+    speechClosedRef.current = true;
+    synthesisRef.current = null;
+    spokenTextRef.current = '';
+  }, []);
+
+  const stopBargeInListener = useCallback(() => {
+    const recognition = bargeInRecognitionRef.current;
+    bargeInRecognitionRef.current = null;
+    isBargingInRef.current = false;
+    try {
+      recognition?.abort();
+    } catch {
+      // Already stopped
+    }
+  }, []);
+
   const startListening = useCallback(() => {
-    if (!SpeechRecognition) {
+    if (!recognizerProvider) {
       setIsMicAvailable(false);
       setErrorMessage('Voice input not supported in this browser.');
       return;
@@ -84,118 +183,127 @@ export function useSpeech(): UseSpeechReturn {
       clearTimeout(errorTimeoutRef.current);
     }
 
-    // Stop any ongoing speech
-    window.speechSynthesis?.cancel();
+    // Stop any ongoing speech and ignore the rest of the reply
+    stopBargeInListener();
+    resetSpeechQueue();
+    speechInterruptedRef.current = true;
+    synthesizer?.cancel();
 
     // Mark that user wants to listen
     isListeningRef.current = true;
+    awaitingFinalRef.current = false;
 
     // Reuse existing recognition or create new one
     if (!recognitionRef.current) {
-      const recognition = new SpeechRecognition();
-      recognition.continuous = true; // Keep listening
-      recognition.interimResults = true;
-      recognition.lang = 'en-US';
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      recognition.onresult = (event: any) => {
-        let fullFinal = '';
-        let currentInterim = '';
-
-        // Build complete transcript from all results (not just from resultIndex)
-        for (let i = 0; i < event.results.length; i++) {
-          const result = event.results[i];
-          if (result.isFinal) {
-            fullFinal += result[0].transcript;
-          } else {
-            currentInterim += result[0].transcript;
+      const recognition = recognizerProvider.create({
+        onResult: (phrases) => {
+          // Build complete transcript from all results (not just the latest)
+          const { fullFinal, currentInterim } = joinPhrases(phrases);
+
+          // Stopped by hand before anything was shown: stop() still delivers what was said
+          if (awaitingFinalRef.current) {
+            if (!fullFinal.trim()) return;
+            awaitingFinalRef.current = false;
+            setTranscript(fullFinal);
+            onTranscriptRef.current?.(fullFinal.trim());
+            return;
           }
-        }
 
-        // Store final transcript for submission
-        finalTranscriptRef.current = fullFinal;
+          // Late results can arrive after the turn was already handed over
+          if (!isListeningRef.current) return;
 
-        // Display full final + current interim
-        setTranscript(fullFinal + currentInterim);
+          // Store final transcript for submission
+          finalTranscriptRef.current = fullFinal;
+          liveTranscriptRef.current = fullFinal + currentInterim;
 
-        // Reset silence timer on any speech
-        if (silenceTimerRef.current) {
-          clearTimeout(silenceTimerRef.current);
-        }
+          // Display full final + current interim
+          setTranscript(fullFinal + currentInterim);
 
-        // If we have some transcript, set timer to stop listening after silence
-        if (fullFinal || currentInterim) {
-          silenceTimerRef.current = setTimeout(() => {
+          // Reset silence timer on any speech
+          if (silenceTimerRef.current) {
+            clearTimeout(silenceTimerRef.current);
+          }
+
+          // Backends without interim results only report once the customer has finished
+          if (!recognizerProvider.supportsInterimResults) {
             stopListening();
-          }, 2500); // 2.5 seconds of silence
-        }
-      };
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      recognition.onerror = (event: any) => {
-        console.error('Speech recognition error:', event.error);
-
-        switch (event.error) {
-          case 'not-allowed':
-            // This is the ONLY error that permanently disables mic
-            setIsMicAvailable(false);
-            setErrorMessage('Microphone access denied. Please allow access in browser settings.');
-            isListeningRef.current = false;
-            setVoiceState('idle');
-            recognitionRef.current = null;
-            break;
-          case 'network':
-            // Soft error - show message but allow retry
-            setErrorMessage('Network error. Tap mic to try again.');
-            clearErrorAfterDelay();
-            isListeningRef.current = false;
-            setVoiceState('idle');
-            recognitionRef.current = null;
-            break;
-          case 'no-speech':
-            // Soft error - common, just show brief message
-            setErrorMessage('No speech detected. Tap mic to try again.');
-            clearErrorAfterDelay();
-            isListeningRef.current = false;
-            setVoiceState('idle');
-            break;
-          case 'audio-capture':
-            // Soft error - mic might be in use
-            setErrorMessage('Could not capture audio. Check your microphone.');
-            clearErrorAfterDelay(5000);
-            isListeningRef.current = false;
-            setVoiceState('idle');
-            recognitionRef.current = null;
-            break;
-          case 'aborted':
-            // User or system aborted - no message needed
-            isListeningRef.current = false;
-            setVoiceState('idle');
-            break;
-          default:
-            // Unknown error - soft failure
-            setErrorMessage('Voice error. Tap mic to try again.');
-            clearErrorAfterDelay();
-            isListeningRef.current = false;
-            setVoiceState('idle');
-            recognitionRef.current = null;
-        }
-      };
-
-      recognition.onend = () => {
-        // Only restart if user still wants to listen and we haven't hit a hard error
-        if (isListeningRef.current && isMicAvailable) {
-          try {
-            recognition.start();
-          } catch {
-            // Failed to restart - stop gracefully
-            isListeningRef.current = false;
+            return;
+          }
+
+          // If we have some transcript, set timer to stop listening after silence
+          if (fullFinal || currentInterim) {
+            silenceTimerRef.current = setTimeout(() => {
+              stopListening();
+            }, 2500); // 2.5 seconds of silence
+          }
+        },
+
+        onError: (error) => {
+          switch (error) {
+            case 'not-allowed':
+              // This is the ONLY error that permanently disables mic
+              setIsMicAvailable(false);
+              setErrorMessage('Microphone access denied. Please allow access in browser settings.');
+              isListeningRef.current = false;
+              setVoiceState('idle');
+              recognitionRef.current = null;
+              break;
+            case 'network':
+              // Soft error - show message but allow retry
+              setErrorMessage('Network error. Tap mic to try again.');
+              clearErrorAfterDelay();
+              isListeningRef.current = false;
+              setVoiceState('idle');
+              recognitionRef.current = null;
+              break;
+            case 'no-speech':
+              // Soft error - common, just show brief message
+              setErrorMessage('No speech detected. Tap mic to try again.');
+              clearErrorAfterDelay();
+              isListeningRef.current = false;
+              setVoiceState('idle');
+              break;
+            case 'audio-capture':
+              // Soft error - mic might be in use
+              setErrorMessage('Could not capture audio. Check your microphone.');
+              clearErrorAfterDelay(5000);
+              isListeningRef.current = false;
+              setVoiceState('idle');
+              recognitionRef.current = null;
+              break;
+            case 'aborted':
+              // User or system aborted - no message needed
+              isListeningRef.current = false;
+              setVoiceState('idle');
+              break;
+            default:
+              // Unknown error - soft failure
+              setErrorMessage('Voice error. Tap mic to try again.');
+              clearErrorAfterDelay();
+              isListeningRef.current = false;
+              setVoiceState('idle');
+              recognitionRef.current = null;
+          }
+        },
+
+        onEnd: () => {
+          // stop() delivers any pending result before onEnd
+          awaitingFinalRef.current = false;
+
+          // Only restart if user still wants to listen and we haven't hit a hard error
+          if (isListeningRef.current && isMicAvailable) {
+            try {
+              recognition.start();
+            } catch {
+              // Failed to restart - stop gracefully
+              isListeningRef.current = false;
+              setVoiceState('idle');
+            }
+          } else {
             setVoiceState('idle');
           }
-        } else {
-          setVoiceState('idle');
-        }
-      };
+        },
+      }, { lang });
 
       recognitionRef.current = recognition;
     }
@@ -204,6 +312,7 @@ export function useSpeech(): UseSpeechReturn {
       setVoiceState('listening');
       setTranscript('');
       finalTranscriptRef.current = '';
+      liveTranscriptRef.current = '';
       recognitionRef.current.start();
     } catch (e) {
       console.error('Failed to start recognition:', e);
@@ -216,10 +325,15 @@ export function useSpeech(): UseSpeechReturn {
         setVoiceState('idle');
       }
     }
-  }, [SpeechRecognition, isMicAvailable, clearErrorAfterDelay]);
+  }, [recognizerProvider, synthesizer, lang, isMicAvailable, clearErrorAfterDelay, resetSpeechQueue, stopBargeInListener]);
 
   const stopListening = useCallback(() => {
+    const wasListening = isListeningRef.current || isBargingInRef.current;
+    const heard = liveTranscriptRef.current.trim();
     isListeningRef.current = false;
+    // Backends without interim results only transcribe once stopped, so wait for that result
+    awaitingFinalRef.current = wasListening && !isBargingInRef.current && !heard;
+    stopBargeInListener();
     if (recognitionRef.current) {
       try {
         recognitionRef.current.stop();
@@ -234,125 +348,207 @@ export function useSpeech(): UseSpeechReturn {
     }
 
     setVoiceState('idle');
-  }, []);
-
-  const speak = useCallback((text: string) => {
-    if (isMuted || !window.speechSynthesis) return;
 
-    // Cancel any ongoing speech
-    window.speechSynthesis.cancel();
-
-    const utterance = new SpeechSynthesisUtterance(text);
-
-    // Voice settings for clear, professional tone
-    utterance.rate = 0.95;      // Slightly slower for clarity
-    utterance.pitch = 0.95;     // Slightly lower for male voice
-    utterance.volume = 1;
-    utterance.lang = 'en-US';   // Force US English
-
-    // Get available voices
-    const voices = window.speechSynthesis.getVoices();
-
-    // Filter for US English voices
-    const usEnglishVoices = voices.filter(v =>
-      v.lang === 'en-US' || v.lang.startsWith('en-US')
-    );
-
-    // Priority list for high-quality US English male voices
-    const preferredMaleVoiceNames = [
-      'Google US English Male',
-      'Microsoft David',
-      'Microsoft Guy Online',
-      'Alex',                    // macOS male voice
-      'Daniel',                  // iOS/macOS UK but clear
-      'Aaron',                   // macOS
-      'Google US English',
-      'Microsoft Mark',
-      'Fred',                    // macOS fallback
-    ];
-
-    // Find the best matching voice
-    let selectedVoice: SpeechSynthesisVoice | null = null;
-
-    // First: Try to find a preferred male voice
-    for (const name of preferredMaleVoiceNames) {
-      selectedVoice = usEnglishVoices.find(v =>
-        v.name.includes(name)
-      ) || null;
-      if (selectedVoice) break;
+    // Hand over what was heard (final + interim, as displayed)
+    if (wasListening && heard) {
+      onTranscriptRef.current?.(heard);
     }
+  }, [stopBargeInListener]);
 
-    // Second: Look for any US English voice with 'Male' in name
-    if (!selectedVoice) {
-      selectedVoice = usEnglishVoices.find(v =>
-        v.name.toLowerCase().includes('male')
-      ) || null;
-    }
+  // Customer stopped talking over the agent: hand their words to the caller
+  const finishBargeIn = useCallback((heard: string) => {
+    const captured = heard.trim();
+    stopBargeInListener();
+    setVoiceState('idle');
+    setTranscript('');
+    finalTranscriptRef.current = '';
+    liveTranscriptRef.current = '';
 
-    // Third: Look for voices that typically sound male (David, James, etc)
-    if (!selectedVoice) {
-      const maleNames = ['david', 'james', 'mark', 'guy', 'alex', 'aaron', 'fred'];
-      selectedVoice = usEnglishVoices.find(v =>
-        maleNames.some(name => v.name.toLowerCase().includes(name))
-      ) || null;
+    if (captured) {
+      onTranscriptRef.current?.(captured);
     }
+  }, [stopBargeInListener]);
 
-    // Fourth: Fall back to first US English voice
-    if (!selectedVoice) {
-      selectedVoice = usEnglishVoices[0] || null;
+  const startBargeInListener = useCallback(() => {
+    if (!bargeIn || !recognizerProvider?.supportsInterimResults || !isMicAvailable || bargeInRecognitionRef.current) {
+      return;
     }
 
-    // Fifth: Ultimate fallback to any English voice
-    if (!selectedVoice) {
-      selectedVoice = voices.find(v => v.lang.startsWith('en')) || voices[0] || null;
-    }
+    let firstCustomerPhrase = 0;
+
+    const recognition = recognizerProvider.create({
+      onResult: (phrases) => {
+        if (!isBargingInRef.current) {
+          // Judge each phrase on its own so earlier echoed phrases don't mask real speech
+          const latest = phrases[phrases.length - 1]?.transcript ?? '';
+          if (countWords(latest) < BARGE_IN_MIN_WORDS || isLikelyEcho(latest, spokenTextRef.current)) {
+            return;
+          }
 
-    if (selectedVoice) {
-      utterance.voice = selectedVoice;
-      console.log('Using voice:', selectedVoice.name, selectedVoice.lang);
+          // Customer is talking over the agent: stop playback and capture their turn
+          isBargingInRef.current = true;
+          firstCustomerPhrase = phrases.length - 1;
+          resetSpeechQueue();
+          speechInterruptedRef.current = true;
+          synthesizer?.cancel();
+          setVoiceState('listening');
+        }
+
+        const { fullFinal, currentInterim } = joinPhrases(phrases.slice(firstCustomerPhrase));
+        finalTranscriptRef.current = fullFinal;
+        liveTranscriptRef.current = fullFinal + currentInterim;
+        setTranscript(fullFinal + currentInterim);
+
+        if (silenceTimerRef.current) {
+          clearTimeout(silenceTimerRef.current);
+        }
+        silenceTimerRef.current = setTimeout(() => {
+          finishBargeIn(fullFinal + currentInterim);
+        }, 2500); // 2.5 seconds of silence
+      },
+
+      onError: () => {
+        // Barge-in is best effort; the tap-to-interrupt path still works
+        if (bargeInRecognitionRef.current === recognition && !isBargingInRef.current) {
+          bargeInRecognitionRef.current = null;
+        }
+      },
+
+      onEnd: () => {
+        // Browsers end recognition after a pause; keep listening while this listener is active
+        if (bargeInRecognitionRef.current !== recognition) return;
+        try {
+          recognition.start();
+        } catch {
+          bargeInRecognitionRef.current = null;
+        }
+      },
+    }, { lang });
+
+    bargeInRecognitionRef.current = recognition;
+    try {
+      recognition.start();
+    } catch {
+      bargeInRecognitionRef.current = null;
     }
+  }, [bargeIn, recognizerProvider, synthesizer, lang, isMicAvailable, resetSpeechQueue, finishBargeIn]);
 
-    utterance.onstart = () => {
-      setVoiceState('speaking');
-    };
+  const speakNextInQueue = useCallback(() => {
+    const text = speechQueueRef.current.shift();
+
+    if (text === undefined) {
+      synthesisRef.current = null;
+      // Wait for more text while the reply is still streaming
+      if (!speechClosedRef.current) return;
 
-    utterance.onend = () => {
+      stopBargeInListener();
       setVoiceState('idle');
-      // Auto-start listening after speaking finishes
+      // Auto-start listening after the last chunk finishes
       if (document.visibilityState === 'visible') {
         startListening();
       }
-    };
+      return;
+    }
 
-    utterance.onerror = () => {
-      setVoiceState('idle');
-    };
+    // Callbacks from a chunk that was cancelled no longer match the current token
+    const playback = {};
+    synthesisRef.current = playback;
+
+    synthesizer.speak(text, {
+      onStart: () => {
+        if (synthesisRef.current !== playback) return;
+        setVoiceState('speaking');
+        spokenTextRef.current += ` ${text}`;
+        startBargeInListener();
+      },
+      onEnd: () => {
+        if (synthesisRef.current !== playback) return;
+        speakNextInQueue();
+      },
+      onError: () => {
+        if (synthesisRef.current !== playback) return;
+        stopBargeInListener();
+        resetSpeechQueue();
+        setVoiceState('idle');
+      },
+    }, { lang });
+
+    // Prepare the following sentence while this one plays
+    if (speechQueueRef.current.length > 0) {
+      synthesizer.prefetch?.(speechQueueRef.current[0], { lang });
+    }
+  }, [synthesizer, lang, startListening, resetSpeechQueue, startBargeInListener, stopBargeInListener]);
 
-    synthesisRef.current = utterance;
-    window.speechSynthesis.speak(utterance);
-  }, [isMuted]);
+  const enqueueSpeech = useCallback((text: string) => {
+    if (isMuted || speechInterruptedRef.current || !synthesizer) return;
 
-  const stopSpeaking = useCallback(() => {
-    window.speechSynthesis?.cancel();
-    setVoiceState('idle');
-  }, []);
+    speechClosedRef.current = false;
+    const { sentences, remainder } = extractSentences(pendingTextRef.current + text);
+    pendingTextRef.current = remainder;
+    speechQueueRef.current.push(...sentences);
+
+    // Start speaking the first sentence immediately
+    if (!synthesisRef.current && speechQueueRef.current.length > 0) {
+      speakNextInQueue();
+    } else {
+      sentences.forEach(sentence => synthesizer.prefetch?.(sentence, { lang }));
+    }
+  }, [isMuted, synthesizer, lang, speakNextInQueue]);
+
+  const flushSpeech = useCallback(() => {
+    if (speechClosedRef.current) return;
+
+    const remainder = pendingTextRef.current.trim();
+    pendingTextRef.current = '';
+    speechClosedRef.current = true;
+    if (remainder) {
+      speechQueueRef.current.push(remainder);
+    }
+
+    // Nothing is playing: speak the remainder, or finish up if the queue is empty
+    if (!synthesisRef.current) {
+      speakNextInQueue();
+    }
+  }, [speakNextInQueue]);
+
+  // Stops playback and readies the queue for the next reply
+  const cancelSpeech = useCallback(() => {
+    if (!isBargingInRef.current) {
+      stopBargeInListener();
+    }
+    resetSpeechQueue();
+    speechInterruptedRef.current = false;
+    synthesizer?.cancel();
+    setVoiceState(prev => prev === 'speaking' ? 'idle' : prev);
+  }, [synthesizer, resetSpeechQueue, stopBargeInListener]);
+
+  const speak = useCallback((text: string) => {
+    if (isMuted || !synthesizer) return;
+
+    // Cancel any ongoing speech
+    cancelSpeech();
+    enqueueSpeech(text);
+    flushSpeech();
+  }, [isMuted, synthesizer, cancelSpeech, enqueueSpeech, flushSpeech]);
 
   const toggleMute = useCallback(() => {
     setIsMuted(prev => !prev);
     if (!isMuted) {
-      window.speechSynthesis?.cancel();
+      cancelSpeech();
     }
-  }, [isMuted]);
+  }, [isMuted, cancelSpeech]);
 
   const clearTranscript = useCallback(() => {
     setTranscript('');
     finalTranscriptRef.current = '';
+    liveTranscriptRef.current = '';
   }, []);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       isListeningRef.current = false;
+      awaitingFinalRef.current = false;
       if (errorTimeoutRef.current) {
         clearTimeout(errorTimeoutRef.current);
       }
@@ -361,9 +557,17 @@ export function useSpeech(): UseSpeechReturn {
       } catch {
         // Already stopped
       }
-      window.speechSynthesis?.cancel();
+      synthesisRef.current = null;
+      const bargeInRecognition = bargeInRecognitionRef.current;
+      bargeInRecognitionRef.current = null;
+      try {
+        bargeInRecognition?.abort();
+      } catch {
+        // Already stopped
+      }
+      synthesizer?.cancel();
     };
-  }, []);
+  }, [synthesizer]);
 
   return {
     voiceState,
@@ -371,12 +575,16 @@ export function useSpeech(): UseSpeechReturn {
     isListening: voiceState === 'listening',
     isSpeaking: voiceState === 'speaking',
     isMicAvailable,
+    recognizerId: recognizerProvider?.id ?? null,
+    synthesizerId: synthesizer?.id ?? null,
     isMuted,
     errorMessage,
     startListening,
     stopListening,
     speak,
-    stopSpeaking,
+    enqueueSpeech,
+    flushSpeech,
+    cancelSpeech,
     toggleMute,
     clearTranscript,
   };
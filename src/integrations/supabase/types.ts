@@ -14,16 +14,520 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      cancellation_requests: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          order_id: string
+          product_ids: string[]
+          quantities: Json
+          reason: string | null
+          status: Database["public"]["Enums"]["service_request_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          order_id: string
+          product_ids?: string[]
+          quantities?: Json
+          reason?: string | null
+          status?: Database["public"]["Enums"]["service_request_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          order_id?: string
+          product_ids?: string[]
+          quantities?: Json
+          reason?: string | null
+          status?: Database["public"]["Enums"]["service_request_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["order_id"]
+          },
+        ]
+      }
+      conversation_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id: string
+          role: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          context: Json
+          created_at: string
+          customer_id: string
+          id: string
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          context?: Json
+          created_at?: string
+          customer_id: string
+          id: string
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          context?: Json
+          created_at?: string
+          customer_id?: string
+          id?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      offers: {
+        Row: {
+          categories: string[]
+          code: string | null
+          description: string
+          discount_type: string
+          max_discount: number | null
+          min_order_value: number
+          offer_id: string
+          payment_methods: string[]
+          title: string
+          valid_from: string
+          valid_until: string
+          value: number
+        }
+        Insert: {
+          categories?: string[]
+          code?: string | null
+          description: string
+          discount_type: string
+          max_discount?: number | null
+          min_order_value?: number
+          offer_id: string
+          payment_methods?: string[]
+          title: string
+          valid_from: string
+          valid_until: string
+          value: number
+        }
+        Update: {
+          categories?: string[]
+          code?: string | null
+          description?: string
+          discount_type?: string
+          max_discount?: number | null
+          min_order_value?: number
+          offer_id?: string
+          payment_methods?: string[]
+          title?: string
+          valid_from?: string
+          valid_until?: string
+          value?: number
+        }
+        Relationships: []
+      }
+      order_items: {
+        Row: {
+          discount: number
+          order_id: string
+          position: number
+          product_id: string
+          product_name: string
+          quantity: number
+          unit_price: number
+        }
+        Insert: {
+          discount?: number
+          order_id: string
+          position: number
+          product_id: string
+          product_name: string
+          quantity?: number
+          unit_price: number
+        }
+        Update: {
+          discount?: number
+          order_id?: string
+          position?: number
+          product_id?: string
+          product_name?: string
+          quantity?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["order_id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["product_id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          carrier: string | null
+          customer_id: string
+          order_date: string
+          order_id: string
+          order_status: string
+          payment_method: string | null
+          shipping_charge: number
+          total_amount: number
+          tracking_number: string | null
+        }
+        Insert: {
+          carrier?: string | null
+          customer_id: string
+          order_date: string
+          order_id: string
+          order_status: string
+          payment_method?: string | null
+          shipping_charge?: number
+          total_amount: number
+          tracking_number?: string | null
+        }
+        Update: {
+          carrier?: string | null
+          customer_id?: string
+          order_date?: string
+          order_id?: string
+          order_status?: string
+          payment_method?: string | null
+          shipping_charge?: number
+          total_amount?: number
+          tracking_number?: string | null
+        }
+        Relationships: []
+      }
+      otp_challenges: {
+        Row: {
+          attempts: number
+          code_hash: string
+          consumed_at: string | null
+          created_at: string
+          customer_id: string
+          expires_at: string
+          id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string
+          customer_id: string
+          expires_at: string
+          id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string
+          customer_id?: string
+          expires_at?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      policies: {
+        Row: {
+          content: Json
+          policy_type: string
+        }
+        Insert: {
+          content: Json
+          policy_type: string
+        }
+        Update: {
+          content?: Json
+          policy_type?: string
+        }
+        Relationships: []
+      }
+      product_faqs: {
+        Row: {
+          answer: string
+          id: number
+          position: number
+          product_id: string
+          question: string
+        }
+        Insert: {
+          answer: string
+          id?: never
+          position: number
+          product_id: string
+          question: string
+        }
+        Update: {
+          answer?: string
+          id?: never
+          position?: number
+          product_id?: string
+          question?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_faqs_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["product_id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category: string
+          delivery_time_days: number
+          description: string
+          discount_percentage: number | null
+          price: number
+          product_id: string
+          product_name: string
+          rating: number | null
+          return_eligible: boolean
+          review_count: number
+          stock_available: number
+        }
+        Insert: {
+          category: string
+          delivery_time_days: number
+          description?: string
+          discount_percentage?: number | null
+          price: number
+          product_id: string
+          product_name: string
+          rating?: number | null
+          return_eligible?: boolean
+          review_count?: number
+          stock_available?: number
+        }
+        Update: {
+          category?: string
+          delivery_time_days?: number
+          description?: string
+          discount_percentage?: number | null
+          price?: number
+          product_id?: string
+          product_name?: string
+          rating?: number | null
+          return_eligible?: boolean
+          review_count?: number
+          stock_available?: number
+        }
+        Relationships: []
+      }
+      refunds: {
+        Row: {
+          amount: number
+          cancellation_request_id: string | null
+          initiated_at: string
+          method: string
+          order_id: string
+          processed_at: string | null
+          refund_id: string
+          request_type: string
+          return_request_id: string | null
+          status: Database["public"]["Enums"]["refund_status"]
+        }
+        Insert: {
+          amount: number
+          cancellation_request_id?: string | null
+          initiated_at?: string
+          method: string
+          order_id: string
+          processed_at?: string | null
+          refund_id: string
+          request_type: string
+          return_request_id?: string | null
+          status?: Database["public"]["Enums"]["refund_status"]
+        }
+        Update: {
+          amount?: number
+          cancellation_request_id?: string | null
+          initiated_at?: string
+          method?: string
+          order_id?: string
+          processed_at?: string | null
+          refund_id?: string
+          request_type?: string
+          return_request_id?: string | null
+          status?: Database["public"]["Enums"]["refund_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_cancellation_request_id_fkey"
+            columns: ["cancellation_request_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["order_id"]
+          },
+          {
+            foreignKeyName: "refunds_return_request_id_fkey"
+            columns: ["return_request_id"]
+            isOneToOne: false
+            referencedRelation: "return_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_requests: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          order_id: string
+          product_ids: string[]
+          quantities: Json
+          reason: string | null
+          status: Database["public"]["Enums"]["service_request_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          order_id: string
+          product_ids?: string[]
+          quantities?: Json
+          reason?: string | null
+          status?: Database["public"]["Enums"]["service_request_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          order_id?: string
+          product_ids?: string[]
+          quantities?: Json
+          reason?: string | null
+          status?: Database["public"]["Enums"]["service_request_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["order_id"]
+          },
+        ]
+      }
+      shipment_events: {
+        Row: {
+          description: string
+          id: number
+          location: string
+          occurred_at: string
+          order_id: string
+          status: string
+        }
+        Insert: {
+          description?: string
+          id?: never
+          location: string
+          occurred_at: string
+          order_id: string
+          status: string
+        }
+        Update: {
+          description?: string
+          id?: never
+          location?: string
+          occurred_at?: string
+          order_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipment_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["order_id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      record_otp_attempt: {
+        Args: { challenge_id: string }
+        Returns: {
+          attempts: number
+          code_hash: string
+          consumed_at: string | null
+          created_at: string
+          customer_id: string
+          expires_at: string
+          id: string
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      refund_status: "initiated" | "processing" | "completed" | "failed"
+      service_request_status:
+        | "requested"
+        | "approved"
+        | "pickup_scheduled"
+        | "refunded"
+        | "rejected"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +654,15 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      refund_status: ["initiated", "processing", "completed", "failed"],
+      service_request_status: [
+        "requested",
+        "approved",
+        "pickup_scheduled",
+        "refunded",
+        "rejected",
+      ],
+    },
   },
 } as const
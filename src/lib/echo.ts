@@ -0,0 +1,27 @@
+function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ') // Keep combining marks used by Indic scripts
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+export function countWords(text: string): number {
+  return normalizeWords(text).length;
+}
+
+/**
+ * Heuristic self-hearing check for barge-in: the microphone often picks up the agent's
+ * own TTS output, so a heard phrase whose words mostly appear in what the agent has
+ * just said is treated as echo rather than the customer speaking.
+ */
+export function isLikelyEcho(heard: string, spokenText: string, threshold = 0.6): boolean {
+  const heardWords = normalizeWords(heard);
+  if (heardWords.length === 0) return true;
+
+  const spokenWords = new Set(normalizeWords(spokenText));
+  if (spokenWords.size === 0) return false;
+
+  const echoed = heardWords.filter(word => spokenWords.has(word)).length;
+  return echoed / heardWords.length >= threshold;
+}
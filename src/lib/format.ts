@@ -0,0 +1,18 @@
+const rupeeFormatter = new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  maximumFractionDigits: 0,
+});
+
+// ₹43,395 — Indian digit grouping, no paise for whole-rupee catalogue prices
+export function formatPrice(amount: number): string {
+  return rupeeFormatter.format(amount);
+}
+
+const dateFormatter = new Intl.DateTimeFormat('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// 2025-03-25 -> 25 Mar 2025
+export function formatDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  return Number.isNaN(date.getTime()) ? isoDate : dateFormatter.format(date);
+}
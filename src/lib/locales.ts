@@ -0,0 +1,14 @@
+import type { Locale } from '@/types/support';
+
+export const DEFAULT_LOCALE: Locale = 'en-US';
+
+// Languages the agent can listen, speak and reply in; labels are shown in their own script
+export const SUPPORTED_LOCALES: { code: Locale; label: string }[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'ta-IN', label: 'தமிழ்' },
+];
+
+export function isSupportedLocale(value: string): value is Locale {
+  return SUPPORTED_LOCALES.some(locale => locale.code === value);
+}
@@ -0,0 +1,34 @@
+// Abbreviations whose trailing period should not end a spoken sentence
+const ABBREVIATIONS = ['e.g', 'i.e', 'etc', 'vs', 'mr', 'mrs', 'ms', 'dr', 'approx', 'rs'];
+
+function endsWithAbbreviation(text: string): boolean {
+  const lastWord = text.slice(text.lastIndexOf(' ') + 1).replace(/\.$/, '').toLowerCase();
+  return ABBREVIATIONS.includes(lastWord);
+}
+
+/**
+ * Splits streamed text into complete sentences, returning whatever trails the last
+ * sentence boundary as `remainder` so it can be completed by the next chunk.
+ * A boundary is `.`, `!`, `?`, `…` or the Devanagari danda `।` followed by whitespace, or a line break, so
+ * decimals such as "₹1,299.50" are not split.
+ */
+export function extractSentences(text: string): { sentences: string[]; remainder: string } {
+  const sentences: string[] = [];
+  const boundary = /[.!?…।]+["')\]]*\s+|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const candidate = text.slice(start, end).trim();
+
+    if (!match[0].startsWith('\n') && endsWithAbbreviation(text.slice(start, match.index + 1))) {
+      continue;
+    }
+
+    if (candidate) sentences.push(candidate);
+    start = end;
+  }
+
+  return { sentences, remainder: text.slice(start) };
+}
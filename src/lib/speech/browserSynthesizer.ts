@@ -0,0 +1,100 @@
+import type { SpeechSynthesizer } from './synthesizer';
+
+// Build an utterance in the session language with the preferred voice and clear, professional tone
+function createUtterance(text: string, lang: string): SpeechSynthesisUtterance {
+  const utterance = new SpeechSynthesisUtterance(text);
+
+  // Voice settings for clear, professional tone
+  utterance.rate = 0.95;      // Slightly slower for clarity
+  utterance.pitch = 0.95;     // Slightly lower for male voice
+  utterance.volume = 1;
+  utterance.lang = lang;
+
+  // Get available voices
+  const voices = window.speechSynthesis.getVoices();
+  const language = lang.split('-')[0];
+
+  // Filter for voices in the exact locale (some platforms report hi_IN rather than hi-IN)
+  const localeVoices = voices.filter(v =>
+    v.lang.replace('_', '-').startsWith(lang)
+  );
+
+  // Priority list for high-quality US English male voices
+  const preferredMaleVoiceNames = [
+    'Google US English Male',
+    'Microsoft David',
+    'Microsoft Guy Online',
+    'Alex',                    // macOS male voice
+    'Daniel',                  // iOS/macOS UK but clear
+    'Aaron',                   // macOS
+    'Google US English',
+    'Microsoft Mark',
+    'Fred',                    // macOS fallback
+  ];
+
+  // Find the best matching voice
+  let selectedVoice: SpeechSynthesisVoice | null = null;
+
+  // First: Try to find a preferred male voice (English only)
+  for (const name of language === 'en' ? preferredMaleVoiceNames : []) {
+    selectedVoice = localeVoices.find(v =>
+      v.name.includes(name)
+    ) || null;
+    if (selectedVoice) break;
+  }
+
+  // Second: Look for any voice in the locale with 'Male' in name
+  if (!selectedVoice) {
+    selectedVoice = localeVoices.find(v =>
+      v.name.toLowerCase().includes('male')
+    ) || null;
+  }
+
+  // Third: Look for voices that typically sound male (David, James, etc)
+  if (!selectedVoice) {
+    const maleNames = ['david', 'james', 'mark', 'guy', 'alex', 'aaron', 'fred'];
+    selectedVoice = localeVoices.find(v =>
+      maleNames.some(name => v.name.toLowerCase().includes(name))
+    ) || null;
+  }
+
+  // Fourth: Fall back to first voice in the locale
+  if (!selectedVoice) {
+    selectedVoice = localeVoices[0] || null;
+  }
+
+  // Fifth: Any voice for the language (e.g. en-GB for en-US); only English may fall back
+  // to an arbitrary voice, other languages are left to the browser's default for `lang`
+  if (!selectedVoice) {
+    selectedVoice = voices.find(v => v.lang.startsWith(language))
+      || (language === 'en' ? voices[0] : null)
+      || null;
+  }
+
+  if (selectedVoice) {
+    utterance.voice = selectedVoice;
+  }
+
+  return utterance;
+}
+
+// Speaks with the operating system's voices via the Web Speech API
+export const browserSynthesizer: SpeechSynthesizer = {
+  id: 'browser',
+
+  isSupported() {
+    return typeof window !== 'undefined' && !!window.speechSynthesis;
+  },
+
+  speak(text, { onStart, onEnd, onError }, { lang }) {
+    const utterance = createUtterance(text, lang);
+    utterance.onstart = () => onStart();
+    utterance.onend = () => onEnd();
+    utterance.onerror = () => onError();
+    window.speechSynthesis.speak(utterance);
+  },
+
+  cancel() {
+    window.speechSynthesis?.cancel();
+  },
+};
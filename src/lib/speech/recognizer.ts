@@ -0,0 +1,55 @@
+import { webSpeechRecognizerProvider } from './webSpeechRecognizer';
+import { serverRecognizerProvider } from './serverRecognizer';
+
+export type RecognizerId = 'web-speech' | 'server';
+export type RecognizerPreference = RecognizerId | 'auto';
+
+// Mirrors the Web Speech API error codes the hook already distinguishes
+export type RecognizerErrorCode = 'not-allowed' | 'network' | 'no-speech' | 'audio-capture' | 'aborted' | 'unknown';
+
+export interface RecognizedPhrase {
+  transcript: string;
+  isFinal: boolean;
+}
+
+export interface SpeechRecognizerCallbacks {
+  // Called with every phrase recognised since start(), in order
+  onResult: (phrases: RecognizedPhrase[]) => void;
+  onError: (error: RecognizerErrorCode) => void;
+  onEnd: () => void;
+}
+
+export interface SpeechRecognizerOptions {
+  lang: string;
+}
+
+export interface SpeechRecognizer {
+  start(): void;
+  // Stop capturing and deliver any pending result before onEnd
+  stop(): void;
+  // Stop immediately and discard pending audio
+  abort(): void;
+}
+
+export interface SpeechRecognizerProvider {
+  id: RecognizerId;
+  // Streams interim phrases while the customer talks (required for barge-in)
+  supportsInterimResults: boolean;
+  isSupported(): boolean;
+  create(callbacks: SpeechRecognizerCallbacks, options: SpeechRecognizerOptions): SpeechRecognizer;
+}
+
+// In order of preference for automatic selection
+const providers: SpeechRecognizerProvider[] = [webSpeechRecognizerProvider, serverRecognizerProvider];
+
+/**
+ * Picks the recognizer backend: the requested one if this browser supports it,
+ * otherwise the first supported provider. Returns null when no provider works.
+ */
+export function selectRecognizerProvider(preference: RecognizerPreference = 'auto'): SpeechRecognizerProvider | null {
+  if (preference !== 'auto') {
+    const requested = providers.find(p => p.id === preference);
+    if (requested?.isSupported()) return requested;
+  }
+  return providers.find(p => p.isSupported()) ?? null;
+}
@@ -0,0 +1,166 @@
+import { postToSupportFunction } from '@/lib/supportApi';
+import type { RecognizerErrorCode, SpeechRecognizerProvider } from './recognizer';
+
+// Voice-activity detection tuning for auto-stopping after the customer finishes
+const SPEECH_RMS_THRESHOLD = 0.02;
+const END_OF_SPEECH_SILENCE_MS = 1500;
+const NO_SPEECH_TIMEOUT_MS = 8000;
+const VAD_POLL_INTERVAL_MS = 100;
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function toErrorCode(error: unknown): RecognizerErrorCode {
+  const name = (error as { name?: string })?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'not-allowed';
+  if (name === 'NotFoundError' || name === 'NotReadableError') return 'audio-capture';
+  return 'unknown';
+}
+
+/**
+ * Records audio with MediaRecorder and sends it to the edge function's `transcribe`
+ * action. Works in browsers without the Web Speech API (e.g. Firefox), but only
+ * produces a single final phrase once the customer stops talking.
+ */
+export const serverRecognizerProvider: SpeechRecognizerProvider = {
+  id: 'server',
+  supportsInterimResults: false,
+
+  isSupported() {
+    return typeof window !== 'undefined'
+      && typeof window.MediaRecorder !== 'undefined'
+      && !!navigator.mediaDevices?.getUserMedia;
+  },
+
+  create({ onResult, onError, onEnd }, { lang }) {
+    let stream: MediaStream | null = null;
+    let recorder: MediaRecorder | null = null;
+    let audioContext: AudioContext | null = null;
+    let vadTimer: ReturnType<typeof setInterval> | null = null;
+    let discard = false;
+    const chunks: Blob[] = [];
+
+    const releaseAudio = () => {
+      if (vadTimer) clearInterval(vadTimer);
+      vadTimer = null;
+      audioContext?.close().catch(() => {});
+      audioContext = null;
+      stream?.getTracks().forEach(track => track.stop());
+      stream = null;
+    };
+
+    const transcribe = async () => {
+      const audio = new Blob(chunks, { type: recorder?.mimeType || 'audio/webm' });
+      chunks.length = 0;
+      if (discard || audio.size === 0) return;
+
+      try {
+        const response = await postToSupportFunction({
+          action: 'transcribe',
+          audio: await blobToBase64(audio),
+          mimeType: audio.type,
+          language: lang,
+        });
+        if (!response.ok) {
+          onError('network');
+          return;
+        }
+        const { text } = await response.json();
+        if (text?.trim()) {
+          onResult([{ transcript: text.trim(), isFinal: true }]);
+        } else {
+          onError('no-speech');
+        }
+      } catch {
+        onError('network');
+      }
+    };
+
+    // Stop recording once the customer has spoken and then gone quiet
+    const watchForSilence = (source: MediaStream) => {
+      audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 2048;
+      audioContext.createMediaStreamSource(source).connect(analyser);
+      const samples = new Uint8Array(analyser.fftSize);
+
+      const startedAt = Date.now();
+      let heardSpeech = false;
+      let lastSpeechAt = startedAt;
+
+      vadTimer = setInterval(() => {
+        analyser.getByteTimeDomainData(samples);
+        let sumSquares = 0;
+        for (const sample of samples) {
+          const normalized = (sample - 128) / 128;
+          sumSquares += normalized * normalized;
+        }
+        const rms = Math.sqrt(sumSquares / samples.length);
+        const now = Date.now();
+
+        if (rms > SPEECH_RMS_THRESHOLD) {
+          heardSpeech = true;
+          lastSpeechAt = now;
+        } else if (heardSpeech && now - lastSpeechAt > END_OF_SPEECH_SILENCE_MS) {
+          recorder?.stop();
+        } else if (!heardSpeech && now - startedAt > NO_SPEECH_TIMEOUT_MS) {
+          discard = true;
+          onError('no-speech');
+          recorder?.stop();
+        }
+      }, VAD_POLL_INTERVAL_MS);
+    };
+
+    return {
+      start() {
+        if (recorder?.state === 'recording') {
+          throw new Error('Recognition already started');
+        }
+        discard = false;
+
+        navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+          .then(source => {
+            stream = source;
+            recorder = new MediaRecorder(source);
+            recorder.ondataavailable = (event) => {
+              if (event.data.size > 0) chunks.push(event.data);
+            };
+            recorder.onstop = async () => {
+              releaseAudio();
+              await transcribe();
+              onEnd();
+            };
+            recorder.start();
+            watchForSilence(source);
+          })
+          .catch(error => {
+            releaseAudio();
+            onError(toErrorCode(error));
+          });
+      },
+
+      stop() {
+        if (recorder?.state === 'recording') {
+          recorder.stop();
+        } else {
+          releaseAudio();
+        }
+      },
+
+      abort() {
+        discard = true;
+        if (recorder?.state === 'recording') {
+          recorder.stop();
+        } else {
+          releaseAudio();
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,96 @@
+import { postToSupportFunction } from '@/lib/supportApi';
+import type { SpeechSynthesizer } from './synthesizer';
+
+let audioContext: AudioContext | null = null;
+let currentSource: AudioBufferSourceNode | null = null;
+// Bumped on cancel so audio still being fetched for an old reply is never played
+let generation = 0;
+const pendingAudio = new Map<string, Promise<AudioBuffer>>();
+
+function getAudioContext() {
+  audioContext ??= new AudioContext();
+  return audioContext;
+}
+
+async function fetchAudio(text: string, lang: string): Promise<AudioBuffer> {
+  const response = await postToSupportFunction({ action: 'synthesize', text, language: lang });
+  if (!response.ok) {
+    throw new Error('Speech synthesis failed');
+  }
+  return getAudioContext().decodeAudioData(await response.arrayBuffer());
+}
+
+function loadAudio(text: string, lang: string) {
+  const key = `${lang}:${text}`;
+  let audio = pendingAudio.get(key);
+  if (!audio) {
+    audio = fetchAudio(text, lang);
+    pendingAudio.set(key, audio);
+  }
+  return { key, audio };
+}
+
+/**
+ * Plays audio rendered by the edge function's `synthesize` action so the agent
+ * has the same brand voice on every device.
+ */
+export const serverSynthesizer: SpeechSynthesizer = {
+  id: 'server',
+
+  isSupported() {
+    return typeof window !== 'undefined' && typeof window.AudioContext !== 'undefined';
+  },
+
+  speak(text, { onStart, onEnd, onError }, { lang }) {
+    const startedGeneration = generation;
+    const { key, audio } = loadAudio(text, lang);
+
+    audio
+      .then(async (buffer) => {
+        pendingAudio.delete(key);
+        if (startedGeneration !== generation) return;
+
+        const context = getAudioContext();
+        // Browsers suspend contexts created before a user gesture
+        if (context.state === 'suspended') {
+          await context.resume();
+        }
+
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(context.destination);
+        source.onended = () => {
+          if (currentSource !== source) return;
+          currentSource = null;
+          onEnd();
+        };
+
+        currentSource = source;
+        source.start();
+        onStart();
+      })
+      .catch((error) => {
+        pendingAudio.delete(key);
+        console.error('Server speech synthesis error:', error);
+        if (startedGeneration === generation) onError();
+      });
+  },
+
+  prefetch(text, { lang }) {
+    loadAudio(text, lang).audio.catch(() => {
+      // Reported when the text is actually spoken
+    });
+  },
+
+  cancel() {
+    generation++;
+    pendingAudio.clear();
+    const source = currentSource;
+    currentSource = null;
+    try {
+      source?.stop();
+    } catch {
+      // Already stopped
+    }
+  },
+};
@@ -0,0 +1,41 @@
+import { browserSynthesizer } from './browserSynthesizer';
+import { serverSynthesizer } from './serverSynthesizer';
+
+export type SynthesizerId = 'browser' | 'server';
+export type SynthesizerPreference = SynthesizerId | 'auto';
+
+export interface SpeechPlaybackCallbacks {
+  onStart: () => void;
+  onEnd: () => void;
+  onError: () => void;
+}
+
+export interface SpeechSynthesizerOptions {
+  lang: string;
+}
+
+export interface SpeechSynthesizer {
+  id: SynthesizerId;
+  isSupported(): boolean;
+  // Play one chunk of text; callbacks must fire asynchronously
+  speak(text: string, callbacks: SpeechPlaybackCallbacks, options: SpeechSynthesizerOptions): void;
+  // Start preparing audio for text that will be spoken next
+  prefetch?(text: string, options: SpeechSynthesizerOptions): void;
+  // Stop playback immediately and drop anything pending
+  cancel(): void;
+}
+
+// In order of preference for automatic selection
+const synthesizers: SpeechSynthesizer[] = [browserSynthesizer, serverSynthesizer];
+
+/**
+ * Picks the text-to-speech backend: the requested one if this browser supports it,
+ * otherwise the first supported synthesizer. Returns null when none works.
+ */
+export function selectSynthesizer(preference: SynthesizerPreference = 'auto'): SpeechSynthesizer | null {
+  if (preference !== 'auto') {
+    const requested = synthesizers.find(s => s.id === preference);
+    if (requested?.isSupported()) return requested;
+  }
+  return synthesizers.find(s => s.isSupported()) ?? null;
+}
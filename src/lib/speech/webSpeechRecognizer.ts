@@ -0,0 +1,49 @@
+import type { RecognizerErrorCode, SpeechRecognizerProvider } from './recognizer';
+
+const KNOWN_ERRORS: RecognizerErrorCode[] = ['not-allowed', 'network', 'no-speech', 'audio-capture', 'aborted'];
+
+function getSpeechRecognition() {
+  return typeof window !== 'undefined'
+    ? (window.SpeechRecognition || window.webkitSpeechRecognition)
+    : null;
+}
+
+// Browser-native recognition (Chrome, Edge, Safari) with live interim results
+export const webSpeechRecognizerProvider: SpeechRecognizerProvider = {
+  id: 'web-speech',
+  supportsInterimResults: true,
+
+  isSupported() {
+    return !!getSpeechRecognition();
+  },
+
+  create({ onResult, onError, onEnd }, { lang }) {
+    const SpeechRecognition = getSpeechRecognition();
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true; // Keep listening
+    recognition.interimResults = true;
+    recognition.lang = lang;
+
+    recognition.onresult = (event) => {
+      const phrases = [];
+      for (let i = 0; i < event.results.length; i++) {
+        phrases.push({ transcript: event.results[i][0].transcript, isFinal: event.results[i].isFinal });
+      }
+      onResult(phrases);
+    };
+
+    recognition.onerror = (event) => {
+      console.error('Speech recognition error:', event.error);
+      const code = event.error as RecognizerErrorCode;
+      onError(KNOWN_ERRORS.includes(code) ? code : 'unknown');
+    };
+
+    recognition.onend = () => onEnd();
+
+    return {
+      start: () => recognition.start(),
+      stop: () => recognition.stop(),
+      abort: () => recognition.abort(),
+    };
+  },
+};
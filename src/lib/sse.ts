@@ -0,0 +1,59 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Parse a single "event:/data:" block; multi-line data fields are joined with newlines
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue; // Comment / keep-alive
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Reads a `text/event-stream` response body and yields each complete event.
+ * Events split across network chunks are buffered until their blank-line terminator arrives.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+      }
+    }
+
+    // Flush a trailing event that was not terminated by a blank line
+    const trailing = parseEventBlock(buffer.trim());
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
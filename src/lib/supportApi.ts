@@ -0,0 +1,21 @@
+export const SUPPORT_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/customer-support`;
+
+// Attached to every request as x-session-token once the customer has signed in
+let sessionToken: string | null = null;
+
+export function setSessionToken(token: string | null) {
+  sessionToken = token;
+}
+
+// POST a JSON body to the customer-support edge function
+export function postToSupportFunction(body: Record<string, unknown>): Promise<Response> {
+  return fetch(SUPPORT_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      ...(sessionToken ? { 'x-session-token': sessionToken } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
@@ -0,0 +1,67 @@
+import type { Message, Order, PendingAction, Product, ProductComparison, ToolResult } from '@/types/support';
+
+function isProduct(value: unknown): value is Product {
+  return typeof value === 'object' && value !== null && 'product_id' in value && 'price' in value;
+}
+
+function isOrder(value: unknown): value is Order {
+  return typeof value === 'object' && value !== null && 'order_id' in value && 'order_status' in value;
+}
+
+function isComparison(value: unknown): value is ProductComparison {
+  return typeof value === 'object' && value !== null && 'best' in value && 'products' in value;
+}
+
+function getSearchProducts(value: unknown): Product[] {
+  if (typeof value !== 'object' || value === null || !('products' in value)) return [];
+  const { products } = value as { products: unknown };
+  return Array.isArray(products) ? products.filter(isProduct) : [];
+}
+
+export function getRecommendedProducts(value: unknown): Product[] {
+  if (typeof value !== 'object' || value === null || !('recommendations' in value)) return [];
+  const { recommendations } = value as { recommendations: unknown };
+  return Array.isArray(recommendations) ? recommendations.filter(isProduct) : [];
+}
+
+function getPendingAction(value: unknown): PendingAction | undefined {
+  if (typeof value !== 'object' || value === null || !('pending_action' in value)) return undefined;
+  return (value as { pending_action: PendingAction }).pending_action;
+}
+
+/**
+ * Picks the products, comparison, order and pending action an assistant reply talked about out
+ * of the tools it ran, so the chat can show them alongside the spoken answer. Later results win.
+ */
+export function attachToolResults(
+  toolResults: ToolResult[]
+): Pick<Message, 'toolResults' | 'products' | 'comparison' | 'order' | 'pendingAction'> {
+  let products: Product[] | undefined;
+  let comparison: ProductComparison | undefined;
+  let order: Order | undefined;
+  let pendingAction: PendingAction | undefined;
+
+  for (const { name, result } of toolResults) {
+    if (name === 'searchProducts') {
+      products = getSearchProducts(result);
+    } else if (name === 'getRecommendations') {
+      products = getRecommendedProducts(result);
+    } else if (name === 'getProductDetails' && isProduct(result)) {
+      products = [result];
+    } else if (name === 'compareProducts' && isComparison(result)) {
+      comparison = result;
+    } else if (name === 'trackOrder' && isOrder(result)) {
+      order = result;
+    } else if (name === 'initiateCancellation' || name === 'initiateReturn') {
+      pendingAction = getPendingAction(result) ?? pendingAction;
+    }
+  }
+
+  return {
+    toolResults,
+    products: products?.length ? products : undefined,
+    comparison,
+    order,
+    pendingAction,
+  };
+}
@@ -1,49 +1,131 @@
 import { useState, useCallback } from 'react';
 import { CustomerIdEntry } from '@/components/CustomerIdEntry';
+import { OtpEntry } from '@/components/OtpEntry';
 import { SupportInterface } from '@/components/SupportInterface';
+import { postToSupportFunction, setSessionToken } from '@/lib/supportApi';
+import type { Locale } from '@/types/support';
+
+const SESSION_STORAGE_KEY = 'customer_support_session';
+
+interface StoredSession {
+  customerId: string;
+  sessionToken: string;
+  expiresAt: number;
+  locale: Locale;
+}
+
+// OTP challenge issued for a customer who has not entered their code yet
+interface PendingLogin {
+  customerId: string;
+  locale: Locale;
+  challenge: string;
+}
+
+// Restore a signed-in session across page reloads (cleared when the tab closes)
+function loadStoredSession(): StoredSession | null {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) return null;
+    const session: StoredSession = JSON.parse(stored);
+    if (session.expiresAt <= Date.now()) {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+    setSessionToken(session.sessionToken);
+    return session;
+  } catch {
+    return null;
+  }
+}
 
 const Index = () => {
-  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [session, setSession] = useState<StoredSession | null>(loadStoredSession);
+  const [pendingLogin, setPendingLogin] = useState<PendingLogin | null>(null);
 
-  const handleValidateCustomer = useCallback(async (id: string): Promise<boolean> => {
+  // Resolves to the error to show the customer, or null once a code is on its way
+  const requestOtp = useCallback(async (id: string, selectedLocale: Locale): Promise<string | null> => {
     try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/customer-support`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          action: 'validateCustomer',
-          context: { customerId: id }
-        })
+      const response = await postToSupportFunction({
+        action: 'requestOtp',
+        customerId: id,
       });
 
+      // Rate limits and bad input come with a message for the customer; server faults do not
       if (!response.ok) {
-        return false;
+        const errorData = await response.json().catch(() => ({}));
+        return response.status < 500 && errorData.error
+          ? errorData.error
+          : `Could not send a verification code (error ${response.status}). Please try again later.`;
       }
 
       const data = await response.json();
-      if (data.valid) {
-        setCustomerId(id);
-        return true;
+      setPendingLogin({ customerId: id, locale: selectedLocale, challenge: data.challenge });
+      return null;
+    } catch (error) {
+      console.error('OTP request error:', error);
+      return 'Could not reach the server. Please check your connection and try again.';
+    }
+  }, []);
+
+  const handleVerifyOtp = useCallback(async (code: string): Promise<boolean> => {
+    if (!pendingLogin) return false;
+
+    try {
+      const response = await postToSupportFunction({
+        action: 'verifyOtp',
+        challenge: pendingLogin.challenge,
+        code,
+      });
+
+      if (!response.ok) {
+        return false;
       }
-      return false;
+
+      const data = await response.json();
+      const newSession: StoredSession = {
+        customerId: data.customerId,
+        sessionToken: data.sessionToken,
+        expiresAt: data.expiresAt,
+        locale: pendingLogin.locale,
+      };
+      setSessionToken(newSession.sessionToken);
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
+      setPendingLogin(null);
+      setSession(newSession);
+      return true;
     } catch (error) {
-      console.error('Validation error:', error);
+      console.error('OTP verification error:', error);
       return false;
     }
-  }, []);
+  }, [pendingLogin]);
+
+  const handleResendOtp = useCallback(() => {
+    if (!pendingLogin) return Promise.resolve('Please enter your Customer ID again.');
+    return requestOtp(pendingLogin.customerId, pendingLogin.locale);
+  }, [pendingLogin, requestOtp]);
 
   const handleLogout = useCallback(() => {
-    setCustomerId(null);
+    setSessionToken(null);
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    setSession(null);
   }, []);
 
-  if (!customerId) {
-    return <CustomerIdEntry onSubmit={handleValidateCustomer} />;
+  if (session) {
+    return <SupportInterface customerId={session.customerId} initialLocale={session.locale} onLogout={handleLogout} />;
+  }
+
+  if (pendingLogin) {
+    return (
+      <OtpEntry
+        customerId={pendingLogin.customerId}
+        onVerify={handleVerifyOtp}
+        onResend={handleResendOtp}
+        onBack={() => setPendingLogin(null)}
+      />
+    );
   }
 
-  return <SupportInterface customerId={customerId} onLogout={handleLogout} />;
+  return <CustomerIdEntry onSubmit={requestOtp} />;
 };
 
 export default Index;
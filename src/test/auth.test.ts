@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AuthError, requestOtp, verifyOtp, type OtpSender } from "../../supabase/functions/customer-support/auth.ts";
+import { createMemoryStore, type MemoryStore } from "../../supabase/functions/customer-support/memoryStore.ts";
+
+// auth.ts reads its secrets from the Deno runtime, stubbed below
+declare global {
+  const Deno: { env: { get(name: string): string | undefined } };
+}
+
+const CUSTOMER_ID = "C0001";
+
+let store: MemoryStore;
+let sentCodes: string[];
+const sender: OtpSender = {
+  send(_customerId, code) {
+    sentCodes.push(code);
+    return Promise.resolve();
+  },
+};
+
+const wrongCode = (code: string) => (code === "000000" ? "111111" : "000000");
+
+beforeEach(() => {
+  vi.stubGlobal("Deno", { env: { get: (name: string) => (name === "SESSION_SECRET" ? "test-secret" : undefined) } });
+  store = createMemoryStore();
+  sentCodes = [];
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("verifyOtp", () => {
+  it("signs the customer in with the code that was sent", async () => {
+    const { challenge } = await requestOtp(CUSTOMER_ID, store, sender);
+    const session = await verifyOtp(challenge, sentCodes[0], store);
+    expect(session.customerId).toBe(CUSTOMER_ID);
+    expect(session.sessionToken.split(".")).toHaveLength(3);
+  });
+
+  it("accepts a code only once", async () => {
+    const { challenge } = await requestOtp(CUSTOMER_ID, store, sender);
+    await verifyOtp(challenge, sentCodes[0], store);
+    await expect(verifyOtp(challenge, sentCodes[0], store)).rejects.toThrow(/no longer valid/);
+  });
+
+  it("locks the challenge after too many wrong guesses", async () => {
+    const { challenge } = await requestOtp(CUSTOMER_ID, store, sender);
+    for (let i = 0; i < 5; i++) {
+      await expect(verifyOtp(challenge, wrongCode(sentCodes[0]), store)).rejects.toThrow("Incorrect verification code");
+    }
+    const locked = verifyOtp(challenge, sentCodes[0], store);
+    await expect(locked).rejects.toBeInstanceOf(AuthError);
+    await expect(locked).rejects.toMatchObject({ status: 429 });
+  });
+
+  it("rejects an expired challenge", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { challenge } = await requestOtp(CUSTOMER_ID, store, sender);
+    vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+    await expect(verifyOtp(challenge, sentCodes[0], store)).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it("maps malformed challenges to an AuthError", async () => {
+    for (const challenge of ["not-a-token", "a.b.c", "%%%.***.!!!", `${btoa("{")}.${btoa("{")}.${btoa("x")}`, 42]) {
+      await expect(verifyOtp(challenge, "123456", store)).rejects.toMatchObject({ name: "AuthError", status: 401 });
+    }
+  });
+});
+
+describe("requestOtp", () => {
+  it("limits how many codes a customer can request", async () => {
+    for (let i = 0; i < 3; i++) {
+      await requestOtp(CUSTOMER_ID, store, sender);
+    }
+    await expect(requestOtp(CUSTOMER_ID, store, sender)).rejects.toMatchObject({ status: 429 });
+    expect(sentCodes).toHaveLength(3);
+
+    // Other customers are unaffected
+    await expect(requestOtp("C0002", store, sender)).resolves.toHaveProperty("challenge");
+  });
+
+  it("answers unknown customer IDs the same way without sending a code", async () => {
+    const known = await requestOtp(CUSTOMER_ID, store, sender);
+    const unknown = await requestOtp("C9999", store, sender);
+
+    expect(Object.keys(unknown)).toEqual(Object.keys(known));
+    expect(sentCodes).toHaveLength(1);
+    await expect(verifyOtp(unknown.challenge, sentCodes[0], store)).rejects.toThrow("Incorrect verification code");
+  });
+
+  it("allows new codes once the window has passed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    for (let i = 0; i < 3; i++) {
+      await requestOtp(CUSTOMER_ID, store, sender);
+    }
+    vi.setSystemTime(Date.now() + 16 * 60 * 1000);
+    await expect(requestOtp(CUSTOMER_ID, store, sender)).resolves.toHaveProperty("challenge");
+  });
+});
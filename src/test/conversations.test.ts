@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryStore } from "../../supabase/functions/customer-support/memoryStore.ts";
+import { canUseSession, listSessions, loadHistory, saveTurn } from "../../supabase/functions/customer-support/conversations.ts";
+
+const SESSION_ID = "8a4f3c2e-6f5b-4c1d-9e7a-1b2c3d4e5f60";
+
+function message(id: string, role: "user" | "assistant", content: string) {
+  return { id, role, content, createdAt: new Date().toISOString() };
+}
+
+describe("conversation history", () => {
+  it("saves turns and loads them back in order", async () => {
+    const store = createMemoryStore();
+    const context = { customerId: "C0001", sessionId: SESSION_ID, lastOrderId: "O0042" };
+
+    await saveTurn(store, "C0001", context, message("m1", "user", "Where is my order?"), message("m2", "assistant", "It has shipped."));
+    await saveTurn(store, "C0001", context, message("m3", "user", "Thanks"), message("m4", "assistant", "You're welcome!"));
+
+    const history = await loadHistory(store, "C0001", SESSION_ID);
+    expect(history?.title).toBe("Where is my order?");
+    expect(history?.context).toMatchObject({ lastOrderId: "O0042" });
+    expect(history?.messages.map((m) => m.id)).toEqual(["m1", "m2", "m3", "m4"]);
+    expect(await listSessions(store, "C0001")).toEqual([expect.objectContaining({ sessionId: SESSION_ID })]);
+  });
+
+  it("does not duplicate a retried turn", async () => {
+    const store = createMemoryStore();
+    const context = { customerId: "C0001", sessionId: SESSION_ID };
+    const turn = [message("m1", "user", "Hi"), message("m2", "assistant", "Hello!")] as const;
+
+    await saveTurn(store, "C0001", context, ...turn);
+    await saveTurn(store, "C0001", context, ...turn);
+
+    expect((await loadHistory(store, "C0001", SESSION_ID))?.messages).toHaveLength(2);
+  });
+
+  it("keeps conversations private to their customer", async () => {
+    const store = createMemoryStore();
+    await saveTurn(store, "C0001", { sessionId: SESSION_ID }, message("m1", "user", "Hi"), message("m2", "assistant", "Hello!"));
+
+    expect(await loadHistory(store, "C0002", SESSION_ID)).toBeNull();
+    expect(await listSessions(store, "C0002")).toEqual([]);
+    expect(await canUseSession(store, "C0002", SESSION_ID)).toBe(false);
+    await expect(
+      saveTurn(store, "C0002", { sessionId: SESSION_ID }, message("m3", "user", "Hi"), message("m4", "assistant", "Hello!"))
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { estimateDelivery } from "../../supabase/functions/customer-support/delivery.ts";
+import { executeToolCall } from "../../supabase/functions/customer-support/tools.ts";
+import { createMemoryStore } from "../../supabase/functions/customer-support/memoryStore.ts";
+import type { Order, Product } from "../../supabase/functions/customer-support/store.ts";
+
+const product = (delivery_time_days: number) => ({ delivery_time_days }) as Product;
+
+const placedOrder: Order = {
+  order_id: "O9001",
+  customer_id: "C0001",
+  products: [],
+  order_status: "Placed",
+  order_date: "2025-03-10",
+  payment_method: "UPI",
+  shipping_charge: 0,
+  total_amount: 0,
+  carrier: null,
+  tracking_number: null,
+  shipment_events: [],
+};
+
+describe("estimateDelivery", () => {
+  it("promises the slowest product's delivery time from the order date", () => {
+    const estimate = estimateDelivery(placedOrder, [product(3), product(7)], new Date("2025-03-12T12:00:00+05:30"));
+    expect(estimate).toMatchObject({ delivery_status: "not_shipped", estimated_delivery_date: "2025-03-17" });
+  });
+
+  it("flags orders past their promised date as delayed", () => {
+    const estimate = estimateDelivery(placedOrder, [product(3)], new Date("2025-03-14T09:00:00+05:30"));
+    expect(estimate.delivery_status).toBe("delayed");
+  });
+
+  it("uses the carrier's scans once the parcel is moving", () => {
+    const order: Order = {
+      ...placedOrder,
+      order_status: "Out for Delivery",
+      carrier: "Blue Dart",
+      tracking_number: "BD12345678",
+      shipment_events: [
+        { status: "Shipped", location: "Bhiwandi, MH", description: "", occurred_at: "2025-03-11T10:00:00+05:30" },
+        // Early morning in India is still the previous day in UTC
+        { status: "Out for Delivery", location: "Pune, MH", description: "", occurred_at: "2025-03-15T04:30:00+05:30" },
+      ],
+    };
+
+    const estimate = estimateDelivery(order, [product(10)], new Date("2025-03-15T06:00:00+05:30"));
+    expect(estimate).toMatchObject({
+      delivery_status: "out_for_delivery",
+      estimated_delivery_date: "2025-03-15",
+      carrier: "Blue Dart",
+      latest_event: { location: "Pune, MH" },
+    });
+  });
+
+  it("reports the delivery date of delivered orders", async () => {
+    const store = createMemoryStore();
+    const delivered = store.orders.find((o) => o.order_status === "Delivered")!;
+    const deliveredEvent = delivered.shipment_events.find((e) => e.status === "Delivered")!;
+
+    const result = await executeToolCall("getDeliveryEstimate", { orderId: delivered.order_id }, delivered.customer_id, store);
+    expect(result).toMatchObject({ delivery_status: "delivered", delivered_at: deliveredEvent.occurred_at });
+  });
+});
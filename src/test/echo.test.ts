@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { isLikelyEcho, countWords } from "@/lib/echo";
+
+describe("isLikelyEcho", () => {
+  const spoken = "Your order O0013 has been shipped and should arrive by Friday.";
+
+  it("flags the agent's own words picked up by the microphone", () => {
+    expect(isLikelyEcho("has been shipped and should arrive", spoken)).toBe(true);
+  });
+
+  it("lets genuine customer speech through", () => {
+    expect(isLikelyEcho("wait I want to cancel it instead", spoken)).toBe(false);
+  });
+
+  it("treats an empty phrase as echo and anything as speech when nothing was spoken", () => {
+    expect(isLikelyEcho("  ", spoken)).toBe(true);
+    expect(isLikelyEcho("hello", "")).toBe(false);
+  });
+});
+
+describe("countWords", () => {
+  it("ignores punctuation", () => {
+    expect(countWords("Stop, please!")).toBe(2);
+  });
+});
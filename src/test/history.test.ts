@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  compactHistory,
+  RECENT_MESSAGE_COUNT,
+  unsummarisedMessages,
+  type ChatMessage,
+} from "../../supabase/functions/customer-support/history.ts";
+
+function conversation(turns: number, length = 400): ChatMessage[] {
+  return Array.from({ length: turns }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `${i}:`.padEnd(length, "x"),
+  }));
+}
+
+const usage = { promptTokens: 50, completionTokens: 20, totalTokens: 70 };
+
+describe("compactHistory", () => {
+  it("sends short histories verbatim without summarising", async () => {
+    const summarize = vi.fn();
+    const messages = conversation(4);
+
+    const result = await compactHistory(messages, null, summarize);
+
+    expect(result).toEqual({ messages, summary: null, usage: null });
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it("folds older turns into the summary and keeps recent ones verbatim", async () => {
+    const summarize = vi.fn().mockResolvedValue({ text: "Customer asked about O0042.", usage });
+    const messages = conversation(40);
+
+    const result = await compactHistory(messages, null, summarize);
+
+    expect(result.messages).toEqual(messages.slice(-RECENT_MESSAGE_COUNT));
+    expect(result.summary).toEqual({ text: "Customer asked about O0042.", lastMessageId: `m${40 - RECENT_MESSAGE_COUNT - 1}` });
+    expect(result.usage).toEqual(usage);
+    expect(summarize).toHaveBeenCalledWith(null, messages.slice(0, 40 - RECENT_MESSAGE_COUNT));
+  });
+
+  it("extends an existing summary", async () => {
+    const summarize = vi.fn().mockResolvedValue({ text: "Updated summary", usage: null });
+    const result = await compactHistory(conversation(40), { text: "Earlier summary", lastMessageId: "m0" }, summarize);
+
+    expect(summarize.mock.calls[0][0]).toBe("Earlier summary");
+    expect(result.summary?.lastMessageId).toBe(`m${40 - RECENT_MESSAGE_COUNT - 1}`);
+  });
+});
+
+describe("unsummarisedMessages", () => {
+  it("drops the messages up to the newest one the summary covers", () => {
+    const messages = conversation(10);
+    expect(unsummarisedMessages(messages, { text: "Summary", lastMessageId: "m3" })).toEqual(messages.slice(4));
+  });
+
+  it("keeps every message when the summary's last message is not among them", () => {
+    const messages = conversation(10).slice(5);
+    expect(unsummarisedMessages(messages, { text: "Summary", lastMessageId: "m3" })).toEqual(messages);
+    expect(unsummarisedMessages(messages, null)).toEqual(messages);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  bestOffer,
+  finalPrice,
+  isOfferActive,
+  priceProduct,
+  quoteOffer,
+  roundRupees,
+} from "../../supabase/functions/customer-support/pricing.ts";
+import type { Offer, Product } from "../../supabase/functions/customer-support/store.ts";
+
+const product: Product = {
+  product_id: "P9001",
+  product_name: "Test Monitor",
+  category: "Electronics",
+  price: 43395,
+  stock_available: 5,
+  rating: 4,
+  review_count: 10,
+  description: "",
+  discount_percentage: 18,
+  return_eligible: true,
+  delivery_time_days: 3,
+};
+
+const offer = (overrides: Partial<Offer>): Offer => ({
+  offer_id: "OF9001",
+  code: null,
+  title: "Test offer",
+  description: "",
+  discount_type: "percentage",
+  value: 10,
+  max_discount: null,
+  min_order_value: 0,
+  categories: [],
+  payment_methods: [],
+  valid_from: "2025-01-01",
+  valid_until: "2025-12-31",
+  ...overrides,
+});
+
+describe("rupee rounding", () => {
+  it("rounds to the nearest rupee with halves going up", () => {
+    expect(roundRupees(35583.9)).toBe(35584);
+    expect(roundRupees(904.5)).toBe(905);
+    expect(roundRupees(904.49)).toBe(904);
+  });
+
+  it("is not thrown off by float error", () => {
+    // 165 * 0.7 is 115.49999999999999 in floating point
+    expect(165 * (1 - 30 / 100)).not.toBe(115.5);
+    expect(finalPrice({ ...product, price: 165, discount_percentage: 30 })).toBe(116);
+  });
+
+  it("prices a product after its catalogue discount", () => {
+    expect(priceProduct(product)).toEqual({
+      list_price: 43395,
+      discount_percentage: 18,
+      final_price: 35584,
+      savings: 7811,
+      list_price_formatted: "₹43,395",
+      final_price_formatted: "₹35,584",
+      savings_formatted: "₹7,811",
+    });
+    expect(finalPrice({ ...product, discount_percentage: undefined })).toBe(43395);
+  });
+});
+
+describe("offers", () => {
+  it("caps percentage offers and never takes a flat offer below zero", () => {
+    const capped = quoteOffer(offer({ value: 10, max_discount: 2000 }), { product, quantity: 1 });
+    expect(capped).toMatchObject({ applicable: true, discount: 2000, total: 33584, total_formatted: "₹33,584" });
+
+    const cheap = { ...product, price: 80, discount_percentage: 0 };
+    expect(quoteOffer(offer({ discount_type: "flat", value: 100 }), { product: cheap, quantity: 1 }).total).toBe(0);
+  });
+
+  it("explains why an offer does not apply and picks the best one that does", () => {
+    const quotes = [
+      quoteOffer(offer({ offer_id: "A", categories: ["Clothing"] }), { product, quantity: 1 }),
+      quoteOffer(offer({ offer_id: "B", payment_methods: ["Credit Card"] }), { product, quantity: 1, paymentMethod: "UPI" }),
+      quoteOffer(offer({ offer_id: "C", min_order_value: 50000 }), { product, quantity: 1 }),
+      quoteOffer(offer({ offer_id: "D", discount_type: "flat", value: 500 }), { product, quantity: 1 }),
+      quoteOffer(offer({ offer_id: "E", min_order_value: 50000, value: 5 }), { product, quantity: 2 }),
+    ];
+    expect(quotes.map((q) => q.reason)).toEqual([
+      "Only for Clothing",
+      "Only when paying by Credit Card",
+      "Needs an order of at least ₹50,000",
+      null,
+      null,
+    ]);
+    // 5% of 2 x ₹35,584 beats the flat ₹500
+    expect(bestOffer(quotes)).toMatchObject({ offer_id: "E", discount: 3558 });
+  });
+
+  it("is active from its first day to its last in the store's calendar", () => {
+    const summer = offer({ valid_from: "2025-06-01", valid_until: "2025-06-30" });
+    expect(isOfferActive(summer, new Date("2025-05-31T19:00:00Z"))).toBe(true);
+    expect(isOfferActive(summer, new Date("2025-06-30T18:00:00Z"))).toBe(true);
+    expect(isOfferActive(summer, new Date("2025-06-30T18:31:00Z"))).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { selectRecognizerProvider } from "@/lib/speech/recognizer";
+
+const win = window as unknown as Record<string, unknown>;
+
+afterEach(() => {
+  delete win.webkitSpeechRecognition;
+  delete win.MediaRecorder;
+});
+
+describe("selectRecognizerProvider", () => {
+  it("returns null when the browser supports no backend", () => {
+    expect(selectRecognizerProvider()).toBeNull();
+  });
+
+  it("prefers Web Speech automatically", () => {
+    win.webkitSpeechRecognition = function () {};
+    win.MediaRecorder = function () {};
+    Object.defineProperty(navigator, "mediaDevices", { value: { getUserMedia: () => {} }, configurable: true });
+    expect(selectRecognizerProvider("auto")?.id).toBe("web-speech");
+    expect(selectRecognizerProvider("server")?.id).toBe("server");
+  });
+
+  it("falls back when the requested backend is unsupported", () => {
+    win.webkitSpeechRecognition = function () {};
+    Object.defineProperty(navigator, "mediaDevices", { value: undefined, configurable: true });
+    expect(selectRecognizerProvider("server")?.id).toBe("web-speech");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { recommendProducts } from "../../supabase/functions/customer-support/recommendations.ts";
+import type { Order, Product } from "../../supabase/functions/customer-support/store.ts";
+
+const product = (product_id: string, product_name: string, category: string, overrides: Partial<Product> = {}): Product => ({
+  product_id,
+  product_name,
+  category,
+  price: 1000,
+  stock_available: 10,
+  rating: 4,
+  review_count: 100,
+  description: "",
+  return_eligible: true,
+  delivery_time_days: 3,
+  ...overrides,
+});
+
+const products = [
+  product("P1", "Flex Yoga Mat", "Sports & Fitness"),
+  product("P2", "Core Exercise Ball", "Sports & Fitness"),
+  product("P3", "Apex Dumbbells", "Sports & Fitness", { stock_available: 0 }),
+  product("P4", "Summit Backpack", "Sports & Fitness"),
+  product("P5", "Luma Monitor", "Electronics", { rating: 4.8, review_count: 5000 }),
+  product("P6", "Flex Yoga Mat", "Sports & Fitness"),
+];
+
+const order: Order = {
+  order_id: "O1",
+  customer_id: "C1",
+  products: [{ product_id: "P1", product_name: "Flex Yoga Mat", quantity: 1, unit_price: 1000, discount: 0 }],
+  order_status: "Delivered",
+  order_date: "2025-03-10",
+  payment_method: "UPI",
+  shipping_charge: 0,
+  total_amount: 1000,
+  carrier: null,
+  tracking_number: null,
+  shipment_events: [],
+};
+
+describe("recommendProducts", () => {
+  it("puts products bought together first and skips owned and out-of-stock ones", () => {
+    const baskets = [["P1", "P2"], ["P1", "P2", "P3"], ["P5"]];
+    const recommendations = recommendProducts([order], baskets, products, 5);
+
+    expect(recommendations[0]).toMatchObject({ product: { product_id: "P2" }, reason: "Often bought with Flex Yoga Mat" });
+    expect(recommendations.find(({ product }) => product.product_id === "P4")?.reason).toBe("Because you shop for Sports & Fitness");
+    // P1 is owned, P6 is the same product under another ID and P3 is out of stock
+    expect(recommendations.map(({ product }) => product.product_id)).toEqual(["P2", "P4", "P5"]);
+  });
+
+  it("falls back to well-rated products for a customer with no orders", () => {
+    const [top] = recommendProducts([], [], products, 1);
+    expect(top.product.product_id).toBe("P5");
+    expect(top.reason).toBe("Rated 4.8 by 5,000 customers");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { addBusinessDays, describeRefund, estimateRefund } from "../../supabase/functions/customer-support/refunds.ts";
+import { formatRupees } from "../../supabase/functions/customer-support/money.ts";
+import type { Order, Refund } from "../../supabase/functions/customer-support/store.ts";
+
+const refund: Refund = {
+  refund_id: "RF9001",
+  order_id: "O9001",
+  request_type: "cancellation",
+  request_id: null,
+  amount: 2473,
+  method: "UPI",
+  status: "processing",
+  // A Friday
+  initiated_at: "2025-03-14T18:00:00+05:30",
+  processed_at: null,
+};
+
+describe("describeRefund", () => {
+  it("skips weekends when counting business days", () => {
+    expect(addBusinessDays("2025-03-14", 1)).toBe("2025-03-17");
+    expect(addBusinessDays("2025-03-14", 5)).toBe("2025-03-21");
+  });
+
+  it("gives the policy's deadline for the payment method and flags late refunds", () => {
+    expect(describeRefund(refund, new Date("2025-03-20T12:00:00+05:30"))).toMatchObject({ expected_by: "2025-03-21", overdue: false });
+    expect(describeRefund({ ...refund, method: "Credit Card" }, new Date("2025-03-20T12:00:00+05:30")).expected_by).toBe("2025-03-28");
+    expect(describeRefund(refund, new Date("2025-03-22T12:00:00+05:30")).overdue).toBe(true);
+  });
+
+  it("has no deadline once the refund is settled", () => {
+    const completed = { ...refund, status: "completed" as const, processed_at: "2025-03-18T12:00:00+05:30" };
+    expect(describeRefund(completed, new Date("2025-04-30T12:00:00+05:30"))).toMatchObject({ expected_by: null, overdue: false });
+  });
+});
+
+const order: Order = {
+  order_id: "O9001",
+  customer_id: "C9001",
+  products: [
+    { product_id: "P9001", product_name: "Test Kettle", quantity: 2, unit_price: 1200, discount: 200 },
+    { product_id: "P9002", product_name: "Test Mug", quantity: 1, unit_price: 450, discount: 0 },
+  ],
+  order_status: "Placed",
+  order_date: "2025-03-10",
+  payment_method: "UPI",
+  shipping_charge: 49,
+  total_amount: 2699,
+  carrier: null,
+  tracking_number: null,
+  shipment_events: [],
+};
+
+describe("estimateRefund", () => {
+  it("refunds shipping only when the whole order is cancelled", () => {
+    expect(estimateRefund(order, "cancellation", ["P9001", "P9002"])).toBe(2699);
+    expect(estimateRefund(order, "cancellation", ["P9001"])).toBe(2200);
+    expect(estimateRefund(order, "return", ["P9001", "P9002"])).toBe(2650);
+  });
+
+  it("prorates items requested in part, line discount included", () => {
+    expect(estimateRefund(order, "return", ["P9001"], { P9001: 1 })).toBe(1100);
+    // Not every unit is cancelled, so shipping stays
+    expect(estimateRefund(order, "cancellation", ["P9001", "P9002"], { P9001: 1 })).toBe(1550);
+    expect(estimateRefund(order, "cancellation", ["P9001", "P9002"], { P9001: 2 })).toBe(2699);
+  });
+
+  it("has nothing to refund when a cash on delivery order is cancelled", () => {
+    expect(estimateRefund({ ...order, payment_method: "Cash on Delivery" }, "cancellation", ["P9001"])).toBe(0);
+  });
+
+  it("formats rupees with Indian grouping and paise only when present", () => {
+    expect(formatRupees(243395)).toBe("₹2,43,395");
+    expect(formatRupees(99.5)).toBe("₹99.50");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { checkReturnEligibility, getReturnRules } from "../../supabase/functions/customer-support/returns.ts";
+import type { Order, Product } from "../../supabase/functions/customer-support/store.ts";
+import policies from "../../supabase/functions/customer-support/data/policies.json";
+
+const rules = getReturnRules(policies.return);
+
+const product = (product_id: string, category: string, return_eligible = true) =>
+  ({ product_id, category, return_eligible }) as Product;
+
+const products = [
+  product("P1", "Clothing"),
+  product("P2", "Electronics", false),
+  product("P3", "Beauty & Personal Care"),
+];
+
+const deliveredOrder: Order = {
+  order_id: "O9001",
+  customer_id: "C0001",
+  products: products.map(({ product_id }) => ({
+    product_id,
+    product_name: `Item ${product_id}`,
+    quantity: 1,
+    unit_price: 1000,
+    discount: 0,
+  })),
+  order_status: "Delivered",
+  order_date: "2025-03-10",
+  payment_method: "UPI",
+  shipping_charge: 0,
+  total_amount: 3000,
+  carrier: "Delhivery",
+  tracking_number: "DL1234567890",
+  shipment_events: [
+    { status: "Shipped", location: "Bhiwandi, MH", description: "", occurred_at: "2025-03-11T10:00:00+05:30" },
+    { status: "Delivered", location: "Pune, MH", description: "", occurred_at: "2025-03-15T13:00:00+05:30" },
+  ],
+};
+
+describe("checkReturnEligibility", () => {
+  it("reads the window and non-returnable categories from the return policy", () => {
+    expect(rules).toEqual({ window_days: 7, non_returnable_categories: ["Beauty & Personal Care"] });
+  });
+
+  it("checks every item against its flag and category", () => {
+    const result = checkReturnEligibility(deliveredOrder, products, rules, undefined, new Date("2025-03-18T12:00:00+05:30"));
+
+    expect(result).toMatchObject({ delivered_on: "2025-03-15", return_by: "2025-03-22" });
+    expect(result.items.map(({ product_id, returnable }) => [product_id, returnable])).toEqual([
+      ["P1", true],
+      ["P2", false],
+      ["P3", false],
+    ]);
+    expect(result.items[2].reason).toBe("Beauty & Personal Care items cannot be returned");
+  });
+
+  it("closes the window at the end of the last day in store time", () => {
+    const lastDay = checkReturnEligibility(deliveredOrder, products, rules, ["P1"], new Date("2025-03-22T23:30:00+05:30"));
+    const dayAfter = checkReturnEligibility(deliveredOrder, products, rules, ["P1"], new Date("2025-03-23T00:30:00+05:30"));
+
+    expect(lastDay.items[0].returnable).toBe(true);
+    expect(dayAfter.items[0]).toMatchObject({ returnable: false, reason: "The 7-day return window ended on 2025-03-22" });
+  });
+
+  it("rejects items without a delivery scan or outside the order", () => {
+    const unscanned = { ...deliveredOrder, shipment_events: [] };
+    const result = checkReturnEligibility(unscanned, products, rules, ["P1", "P9"]);
+
+    expect(result.return_by).toBeNull();
+    expect(result.items.map((item) => item.returnable)).toEqual([false, false]);
+    expect(result.items[1].reason).toBe("Not part of order O9001");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { editDistance, matchCategories, rankProducts, soundex } from "../../supabase/functions/customer-support/search.ts";
+import { bundledData } from "../../supabase/functions/customer-support/memoryStore.ts";
+
+const topNames = (query: Parameters<typeof rankProducts>[1], count = 3) =>
+  rankProducts(bundledData.products, query).slice(0, count).map(({ product }) => product.product_name);
+
+describe("rankProducts", () => {
+  it("finds products from misheard and misspelled names", () => {
+    expect(soundex("loomah")).toBe(soundex("luma"));
+    expect(editDistance("laptp", "laptop")).toBe(1);
+    expect(topNames({ text: "loomah monitor" })).toEqual(["Luma Monitor Pro", "Luma Monitor", "Luma Monitor Pro"]);
+    expect(topNames({ text: "nova speeker" }, 1)).toEqual(["Nova Speaker Pro"]);
+    expect(topNames({ text: "vacum cleaner" })).toEqual(["Harmony Vacuum Cleaner Plus"]);
+  });
+
+  it("ranks products for a need described in the customer's words", () => {
+    const results = rankProducts(bundledData.products, { text: "something for running" });
+    expect(results[0].product.product_name).toContain("Running Shoes");
+    expect(results.map(({ product }) => product.product_name)).toContain("Momentum Treadmill Lite");
+    expect(results.every(({ product }) => product.category === "Sports & Fitness")).toBe(true);
+    expect(results.map(({ score }) => score)).toEqual([...results.map(({ score }) => score)].sort((a, b) => b - a));
+  });
+
+  it("maps everyday words to catalogue categories", () => {
+    const gadgets = rankProducts(bundledData.products, { category: "gadgets" });
+    expect(gadgets.length).toBeGreaterThan(0);
+    expect(gadgets.every(({ product }) => product.category === "Electronics")).toBe(true);
+    expect(rankProducts(bundledData.products, { text: "hair", category: "beauty" })[0].product.product_name).toBe("Aroma Shampoo Pro");
+  });
+
+  it("treats a blank category as no filter rather than every category", () => {
+    const categories = [...new Set(bundledData.products.map((p) => p.category))];
+    expect(matchCategories("  ", categories)).toEqual([]);
+    expect(rankProducts(bundledData.products, { text: "running", category: " " }))
+      .toEqual(rankProducts(bundledData.products, { text: "running" }));
+  });
+
+  it("searches text in other scripts instead of listing the whole catalogue", () => {
+    expect(rankProducts(bundledData.products, { text: "लैपटॉप" })).toEqual([]);
+    expect(rankProducts(bundledData.products, { text: "மடிக்கணினி" })).toEqual([]);
+
+    const [product] = bundledData.products;
+    const renamed = { ...product, product_id: "P9999", product_name: "Crème Kurta लिनन" };
+    const results = rankProducts([...bundledData.products, renamed], { text: "लिनन crème" });
+    expect(results[0].product.product_id).toBe("P9999");
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { extractSentences } from "@/lib/sentences";
+
+describe("extractSentences", () => {
+  it("returns complete sentences and keeps the unfinished tail", () => {
+    expect(extractSentences("Your order has shipped. It should arrive")).toEqual({
+      sentences: ["Your order has shipped."],
+      remainder: "It should arrive",
+    });
+  });
+
+  it("does not split prices or abbreviations", () => {
+    const { sentences, remainder } = extractSentences("It costs ₹1,299.50 today, e.g. with the offer. Anything else?");
+    expect(sentences).toEqual(["It costs ₹1,299.50 today, e.g. with the offer."]);
+    expect(remainder).toBe("Anything else?");
+  });
+
+  it("treats line breaks as boundaries", () => {
+    expect(extractSentences("Here are your orders:\nO0001 is delivered\n").sentences).toEqual([
+      "Here are your orders:",
+      "O0001 is delivered",
+    ]);
+  });
+
+  it("splits Hindi sentences on the danda", () => {
+    expect(extractSentences("आपका ऑर्डर भेज दिया गया है। यह जल्द")).toEqual({
+      sentences: ["आपका ऑर्डर भेज दिया गया है।"],
+      remainder: "यह जल्द",
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { readServerSentEvents } from "@/lib/sse";
+
+function streamFrom(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(chunks: string[]) {
+  const events = [];
+  for await (const event of readServerSentEvents(streamFrom(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("readServerSentEvents", () => {
+  it("parses named events", async () => {
+    const events = await collect([
+      'event: delta\ndata: {"content":"Hi"}\n\n',
+      "event: done\ndata: {}\n\n",
+    ]);
+    expect(events).toEqual([
+      { event: "delta", data: '{"content":"Hi"}' },
+      { event: "done", data: "{}" },
+    ]);
+  });
+
+  it("buffers events split across chunks", async () => {
+    const events = await collect(["event: del", 'ta\ndata: {"content":', '"there"}\n', "\n"]);
+    expect(events).toEqual([{ event: "delta", data: '{"content":"there"}' }]);
+  });
+
+  it("ignores comments and defaults the event name", async () => {
+    const events = await collect([": keep-alive\n\n", "data: plain\n\n"]);
+    expect(events).toEqual([{ event: "message", data: "plain" }]);
+  });
+});
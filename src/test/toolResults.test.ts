@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { attachToolResults } from "@/lib/toolResults";
+import { formatPrice } from "@/lib/format";
+
+const product = {
+  product_id: "P1001",
+  product_name: "Luma Monitor Pro",
+  category: "Electronics",
+  price: 43395,
+  stock_available: 13,
+  rating: 3.5,
+  review_count: 1051,
+  description: "",
+  discount_percentage: 18,
+  return_eligible: false,
+  delivery_time_days: 11,
+};
+
+describe("attachToolResults", () => {
+  it("attaches search results and product details as products", () => {
+    const search = { search: { sortBy: "relevance" }, products: [product], total_matches: 1, next_cursor: null };
+    expect(attachToolResults([{ name: "searchProducts", result: search }]).products).toEqual([product]);
+    expect(attachToolResults([{ name: "getProductDetails", result: product }]).products).toEqual([product]);
+  });
+
+  it("ignores errors and keeps the raw results", () => {
+    const toolResults = [{ name: "getProductDetails", result: { error: "Product with ID P9 not found" } }];
+    const attachments = attachToolResults(toolResults);
+
+    expect(attachments.products).toBeUndefined();
+    expect(attachments.toolResults).toBe(toolResults);
+  });
+
+  it("attaches a tracked order", () => {
+    const order = { order_id: "O0001", customer_id: "C0001", products: [], order_status: "Shipped", order_date: "2025-03-25" };
+    expect(attachToolResults([{ name: "trackOrder", result: order }]).order).toEqual(order);
+  });
+
+  it("attaches a cancellation or return awaiting confirmation", () => {
+    const pendingAction = { token: "t1", type: "return", order_id: "O0001", product_ids: ["P1001"], product_names: ["Luma Monitor Pro"] };
+    expect(attachToolResults([{ name: "initiateReturn", result: { confirmation_required: true, pending_action: pendingAction } }]).pendingAction)
+      .toEqual(pendingAction);
+    expect(attachToolResults([{ name: "initiateReturn", result: { error: "Order O0001 not found" } }]).pendingAction).toBeUndefined();
+  });
+});
+
+describe("formatPrice", () => {
+  it("uses rupees with Indian digit grouping", () => {
+    expect(formatPrice(43395)).toBe("₹43,395");
+    expect(formatPrice(1234567)).toBe("₹12,34,567");
+  });
+});
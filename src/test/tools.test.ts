@@ -0,0 +1,448 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { executeToolCall, tools } from "../../supabase/functions/customer-support/tools.ts";
+import { createMemoryStore } from "../../supabase/functions/customer-support/memoryStore.ts";
+import type { Product, SupportStore } from "../../supabase/functions/customer-support/store.ts";
+import { confirmedToken, withoutConfirmationToken, type PendingAction } from "../../supabase/functions/customer-support/confirmations.ts";
+import { formatRupees } from "../../supabase/functions/customer-support/money.ts";
+import orders from "../../supabase/functions/customer-support/data/orders.json";
+
+const ORDER_TOOLS = ["trackOrder", "getCustomerOrders", "getRefundStatus", "initiateCancellation", "initiateReturn", "confirmAction"];
+
+interface SearchResult {
+  products: (Product & { pricing: { final_price: number } })[];
+  showing_from: number;
+  total_matches: number;
+  next_cursor: string | null;
+}
+
+const victimOrder = orders.find((o) => o.order_status === "Delivered")!;
+const victimId = victimOrder.customer_id;
+const attackerId = orders.find((o) => o.customer_id !== victimId)!.customer_id;
+
+// Return requests are only accepted within the return window after delivery
+const deliveredAt = victimOrder.shipment_events.find((e) => e.status === "Delivered")!.occurred_at;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(Date.parse(deliveredAt) + 24 * 60 * 60 * 1000));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Stages a cancellation or return, then confirms it as the customer's next turn would
+async function submitRequest(name: string, args: Record<string, unknown>, customerId: string, store: SupportStore) {
+  const staged = await executeToolCall(name, args, customerId, store) as { pending_action?: PendingAction };
+  if (!staged.pending_action) return staged;
+  const { order_id: orderId, token } = staged.pending_action;
+  return executeToolCall("confirmAction", { orderId }, customerId, store, staged.pending_action, token);
+}
+
+describe("order tools", () => {
+  it("do not let the model supply a customer ID", () => {
+    for (const tool of tools.filter((t) => ORDER_TOOLS.includes(t.function.name))) {
+      expect(tool.function.parameters.properties).not.toHaveProperty("customerId");
+    }
+  });
+
+  it("ignore model-supplied customer IDs and act for the session customer", async () => {
+    const result = await executeToolCall("getCustomerOrders", { customerId: victimId }, attackerId, createMemoryStore()) as { customer_id: string }[];
+    expect(result.length).toBeGreaterThan(0);
+    expect(result.every((o) => o.customer_id === attackerId)).toBe(true);
+  });
+
+  it("never expose or act on another customer's order", async () => {
+    const store = createMemoryStore();
+    for (const name of ["trackOrder", "getRefundStatus", "initiateCancellation", "initiateReturn"]) {
+      for (const args of [{ orderId: victimOrder.order_id }, { orderId: victimOrder.order_id, customerId: victimId }]) {
+        const result = await executeToolCall(name, args, attackerId, store);
+        expect(result).toEqual({ error: `Order ${victimOrder.order_id} not found` });
+      }
+    }
+
+    // A pending action that reached the store for the wrong customer is checked again on confirmation
+    const forged: PendingAction = {
+      token: "forged",
+      type: "return",
+      order_id: victimOrder.order_id,
+      product_ids: victimOrder.products.map((p) => p.product_id),
+      quantities: {},
+      product_names: [],
+      reason: null,
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+    };
+    expect(await executeToolCall("confirmAction", { orderId: victimOrder.order_id }, attackerId, store, forged, forged.token))
+      .toEqual({ error: `Order ${victimOrder.order_id} not found` });
+    expect(store.serviceRequests).toHaveLength(0);
+  });
+
+  it("still serve the owner of the order", async () => {
+    const store = createMemoryStore();
+    expect(await executeToolCall("trackOrder", { orderId: victimOrder.order_id }, victimId, store)).toMatchObject(victimOrder);
+    expect(await submitRequest("initiateReturn", { orderId: victimOrder.order_id }, victimId, store)).toMatchObject({ success: true });
+  });
+});
+
+describe("refunds", () => {
+  const cancelledOrder = orders.find((o) => o.order_status === "Cancelled")!;
+
+  it("reports the refund for a cancelled order and shows it when tracking", async () => {
+    const store = createMemoryStore();
+    const result = await executeToolCall("getRefundStatus", { orderId: cancelledOrder.order_id }, cancelledOrder.customer_id, store);
+
+    expect(result).toMatchObject({ order_id: cancelledOrder.order_id, refunds: [{ order_id: cancelledOrder.order_id, request_type: "cancellation" }] });
+    expect(await executeToolCall("trackOrder", { orderId: cancelledOrder.order_id }, cancelledOrder.customer_id, store))
+      .toMatchObject({ refund: { order_id: cancelledOrder.order_id } });
+  });
+
+  it("explains a missing refund with the open request", async () => {
+    const placedOrder = orders.find((o) => o.order_status === "Placed")!;
+    const store = createMemoryStore();
+    await submitRequest("initiateCancellation", { orderId: placedOrder.order_id }, placedOrder.customer_id, store);
+
+    const result = await executeToolCall("getRefundStatus", { orderId: placedOrder.order_id }, placedOrder.customer_id, store);
+    expect(result).toMatchObject({ pending_request: { type: "cancellation", status: "requested" } });
+    expect(result).not.toHaveProperty("refunds");
+  });
+});
+
+describe("confirmations", () => {
+  const placedOrder = orders.find((o) => o.order_status === "Placed")!;
+  const stage = async (store: SupportStore) => {
+    const staged = await executeToolCall("initiateCancellation", { orderId: placedOrder.order_id }, placedOrder.customer_id, store);
+    return (staged as { pending_action: PendingAction }).pending_action;
+  };
+  const confirm = (store: SupportStore, orderId: string, pendingAction: PendingAction | null, token = pendingAction?.token ?? null) =>
+    executeToolCall("confirmAction", { orderId }, placedOrder.customer_id, store, pendingAction, token);
+
+  it("stages the request for read-back without submitting it", async () => {
+    const store = createMemoryStore();
+    const pendingAction = await stage(store);
+
+    expect(pendingAction).toMatchObject({
+      type: "cancellation",
+      order_id: placedOrder.order_id,
+      product_names: placedOrder.products.map((p) => p.product_name),
+    });
+    expect(store.serviceRequests).toHaveLength(0);
+  });
+
+  it("keeps the confirmation token away from the model", async () => {
+    const staged = await executeToolCall("initiateCancellation", { orderId: placedOrder.order_id }, placedOrder.customer_id, createMemoryStore());
+    const forModel = withoutConfirmationToken(staged) as { pending_action: Partial<PendingAction> };
+
+    expect(forModel.pending_action).toMatchObject({ order_id: placedOrder.order_id });
+    expect(forModel.pending_action).not.toHaveProperty("token");
+    expect(staged).toHaveProperty("pending_action.token");
+  });
+
+  it("only commits the action staged on an earlier turn", async () => {
+    const store = createMemoryStore();
+    const pendingAction = await stage(store);
+
+    // Same turn: the session context does not hold the new action yet
+    expect(await confirm(store, placedOrder.order_id, null)).toHaveProperty("error");
+    expect(await confirm(store, victimOrder.order_id, pendingAction)).toHaveProperty("error");
+    expect(store.serviceRequests).toHaveLength(0);
+
+    expect(await confirm(store, placedOrder.order_id, pendingAction)).toMatchObject({ success: true });
+    expect(store.serviceRequests).toHaveLength(1);
+  });
+
+  it("only commits once the customer's own message confirmed the token", async () => {
+    const store = createMemoryStore();
+    const pendingAction = await stage(store);
+
+    // The model called confirmAction, but the customer did not say yes or press Confirm
+    expect(await confirm(store, placedOrder.order_id, pendingAction, null)).toMatchObject({ error: expect.stringContaining("not confirmed") });
+    expect(await confirm(store, placedOrder.order_id, pendingAction, "stale-token")).toHaveProperty("error");
+    expect(store.serviceRequests).toHaveLength(0);
+
+    expect(confirmedToken(pendingAction, "Yes, confirm", pendingAction.token)).toBe(pendingAction.token);
+    expect(confirmedToken(pendingAction, "yes please go ahead", undefined)).toBe(pendingAction.token);
+    expect(confirmedToken(pendingAction, "हाँ, कर दो", undefined)).toBe(pendingAction.token);
+    expect(confirmedToken(pendingAction, "yes... no, wait", undefined)).toBeNull();
+    expect(confirmedToken(pendingAction, "what about O0030?", undefined)).toBeNull();
+    expect(confirmedToken(null, "yes", undefined)).toBeNull();
+  });
+
+  it("rejects expired confirmations", async () => {
+    const store = createMemoryStore();
+    const pendingAction = await stage(store);
+    vi.setSystemTime(Date.now() + 10 * 60 * 1000);
+
+    expect(await confirm(store, placedOrder.order_id, pendingAction)).toMatchObject({ error: expect.stringContaining("expired") });
+    expect(store.serviceRequests).toHaveLength(0);
+  });
+});
+
+describe("service requests", () => {
+  const placedOrder = orders.find((o) => o.order_status === "Placed")!;
+
+  it("records a cancellation request and shows it when tracking", async () => {
+    const store = createMemoryStore();
+    const result = await submitRequest(
+      "initiateCancellation",
+      { orderId: placedOrder.order_id, reason: "Ordered by mistake" },
+      placedOrder.customer_id,
+      store
+    );
+
+    expect(result).toMatchObject({ success: true, request: { type: "cancellation", status: "requested", reason: "Ordered by mistake" } });
+    expect(await executeToolCall("trackOrder", { orderId: placedOrder.order_id }, placedOrder.customer_id, store))
+      .toMatchObject({ order_id: placedOrder.order_id, pending_request: { type: "cancellation", status: "requested" } });
+  });
+
+  it("cancels only the items the customer names", async () => {
+    const order = orders.find((o) => o.order_status === "Placed" && o.products.length > 1)!;
+    const [kept, cancelled] = order.products;
+    const store = createMemoryStore();
+    const args = { orderId: order.order_id, productIds: [cancelled.product_id, "P9999"] };
+
+    expect(await executeToolCall("initiateCancellation", args, order.customer_id, store)).toMatchObject({
+      pending_action: { product_ids: [cancelled.product_id] },
+      items: [
+        { product_id: cancelled.product_id, cancellable: true },
+        { product_id: "P9999", cancellable: false, reason: `Not part of order ${order.order_id}` },
+      ],
+    });
+
+    const result = await submitRequest("initiateCancellation", args, order.customer_id, store);
+    expect(result).toMatchObject({ success: true, request: { product_ids: [cancelled.product_id] } });
+    expect((result as { message: string }).message).toContain(`${cancelled.product_name} from order ${order.order_id}`);
+    expect((result as { message: string }).message).not.toContain(kept.product_name);
+  });
+
+  it("cancels part of an item's quantity and refuses more than was ordered", async () => {
+    const order = orders.find((o) => o.order_status === "Placed" && o.products.some((p) => p.quantity > 1))!;
+    const line = order.products.find((p) => p.quantity > 1)!;
+    const store = createMemoryStore();
+
+    expect(await executeToolCall("initiateCancellation", { orderId: order.order_id, quantities: { [line.product_id]: line.quantity + 1 } }, order.customer_id, store))
+      .toMatchObject({ success: false, items: [{ product_id: line.product_id, cancellable: false, reason: `Only ${line.quantity} of this item were ordered` }] });
+
+    const result = await submitRequest("initiateCancellation", { orderId: order.order_id, quantities: { [line.product_id]: 1 } }, order.customer_id, store);
+    const partialRefund = (line.unit_price * line.quantity - line.discount) / line.quantity;
+    expect(result).toMatchObject({
+      success: true,
+      request: { product_ids: [line.product_id], quantities: { [line.product_id]: 1 } },
+      estimated_refund: formatRupees(partialRefund),
+    });
+    expect((result as { message: string }).message).toContain(`1 of ${line.product_name} from order ${order.order_id}`);
+  });
+
+  it("leaves the other units of a partly requested item free for a later request", async () => {
+    const order = orders.find((o) => o.order_status === "Placed" && o.products.some((p) => p.quantity === 2))!;
+    const line = order.products.find((p) => p.quantity === 2)!;
+    const store = createMemoryStore();
+    const cancelOne = { orderId: order.order_id, quantities: { [line.product_id]: 1 } };
+
+    const first = await submitRequest("initiateCancellation", cancelOne, order.customer_id, store) as { request: { request_id: string } };
+    expect(await executeToolCall("initiateCancellation", { orderId: order.order_id, quantities: { [line.product_id]: 2 } }, order.customer_id, store))
+      .toMatchObject({
+        success: false,
+        items: [{ cancellable: false, reason: `Only 1 of this item is not already in cancellation request ${first.request.request_id}` }],
+      });
+
+    const second = await submitRequest("initiateCancellation", cancelOne, order.customer_id, store);
+    expect(second).toMatchObject({ success: true, request: { quantities: { [line.product_id]: 1 } } });
+    expect(store.serviceRequests).toHaveLength(2);
+
+    // Both units are now requested, so asking again answers with an existing request
+    const third = await submitRequest("initiateCancellation", cancelOne, order.customer_id, store);
+    expect(third).toMatchObject({ success: true, message: expect.stringContaining("No new request was created") });
+    expect(store.serviceRequests).toHaveLength(2);
+  });
+
+  it("does not create duplicates when asked twice", async () => {
+    const store = createMemoryStore();
+    const first = await submitRequest("initiateReturn", { orderId: victimOrder.order_id }, victimId, store);
+    const second = await submitRequest("initiateReturn", { orderId: victimOrder.order_id }, victimId, store);
+
+    expect(store.serviceRequests).toHaveLength(1);
+    expect((second as { request: { request_id: string } }).request.request_id)
+      .toBe((first as { request: { request_id: string } }).request.request_id);
+  });
+
+  it("records a later request for other items of the same order", async () => {
+    const order = orders.find((o) => o.order_status === "Placed" && o.products.length > 1)!;
+    const [first, ...rest] = order.products.map((p) => p.product_id);
+    const store = createMemoryStore();
+    await submitRequest("initiateCancellation", { orderId: order.order_id, productIds: [first] }, order.customer_id, store);
+
+    const args = { orderId: order.order_id };
+    expect(await executeToolCall("initiateCancellation", args, order.customer_id, store)).toMatchObject({
+      pending_action: { product_ids: rest },
+      items: expect.arrayContaining([
+        expect.objectContaining({ product_id: first, cancellable: false, reason: expect.stringContaining("Already in cancellation request") }),
+      ]),
+    });
+    expect(await submitRequest("initiateCancellation", args, order.customer_id, store))
+      .toMatchObject({ success: true, request: { product_ids: rest } });
+    expect(store.serviceRequests).toHaveLength(2);
+
+    // Every item is now covered, so a third request is a repeat
+    expect(await executeToolCall("initiateCancellation", { orderId: order.order_id, productIds: [first] }, order.customer_id, store))
+      .toMatchObject({ success: true, message: expect.stringContaining("already exists") });
+    const overlapping = await store.createServiceRequest({ type: "cancellation", orderId: order.order_id, customerId: order.customer_id, productIds: rest });
+    expect(overlapping.created).toBe(false);
+  });
+
+  it("returns only the items that are eligible", async () => {
+    const store = createMemoryStore();
+    const [nonReturnable, ...returnable] = victimOrder.products.map((p) => p.product_id);
+    store.products.find((p) => p.product_id === nonReturnable)!.return_eligible = false;
+
+    const args = { orderId: victimOrder.order_id, reason: "Changed my mind" };
+
+    const staged = await executeToolCall("initiateReturn", args, victimId, store);
+    expect((staged as { items: { product_id: string; reason: string | null }[] }).items[0])
+      .toMatchObject({ product_id: nonReturnable, reason: "This product is marked as non-returnable" });
+    expect(await submitRequest("initiateReturn", args, victimId, store))
+      .toMatchObject({ success: true, request: { product_ids: returnable, reason: "Changed my mind" } });
+  });
+
+  it("returns the units of an item one request at a time", async () => {
+    const order = orders.find((o) => o.order_id === "O0085")!;
+    const [line] = order.products;
+    const store = createMemoryStore();
+    const delivered = order.shipment_events.find((e) => e.status === "Delivered")!.occurred_at;
+    vi.setSystemTime(new Date(Date.parse(delivered) + 24 * 60 * 60 * 1000));
+    const returnOne = { orderId: order.order_id, quantities: { [line.product_id]: 1 } };
+
+    expect(line.quantity).toBe(2);
+    expect(await submitRequest("initiateReturn", returnOne, order.customer_id, store)).toMatchObject({ success: true });
+    expect(await executeToolCall("initiateReturn", { orderId: order.order_id }, order.customer_id, store))
+      .toMatchObject({ pending_action: { product_ids: [line.product_id], quantities: { [line.product_id]: 1 } } });
+    expect(await submitRequest("initiateReturn", returnOne, order.customer_id, store)).toMatchObject({
+      success: true,
+      request: { quantities: { [line.product_id]: 1 } },
+    });
+    expect(store.serviceRequests).toHaveLength(2);
+  });
+
+  it("refuses returns after the return window", async () => {
+    const store = createMemoryStore();
+    vi.setSystemTime(new Date(Date.parse(deliveredAt) + 30 * 24 * 60 * 60 * 1000));
+
+    const result = await executeToolCall("initiateReturn", { orderId: victimOrder.order_id }, victimId, store);
+
+    expect(result).toMatchObject({ success: false });
+    expect(store.serviceRequests).toHaveLength(0);
+  });
+
+  it("allows a new request once the previous one was rejected", async () => {
+    const store = createMemoryStore();
+    await submitRequest("initiateReturn", { orderId: victimOrder.order_id }, victimId, store);
+    store.serviceRequests[0].status = "rejected";
+
+    const retry = await store.createServiceRequest({ type: "return", orderId: victimOrder.order_id, customerId: victimId, productIds: [] });
+    expect(retry.created).toBe(true);
+    expect(store.serviceRequests).toHaveLength(2);
+  });
+});
+
+describe("catalog tools", () => {
+  it("read products from the store rather than bundled data", async () => {
+    const store = createMemoryStore();
+    store.products[0].stock_available = 0;
+
+    const product = await executeToolCall("getProductDetails", { productId: store.products[0].product_id }, victimId, store);
+    expect(product).toMatchObject({ stock_available: 0 });
+    expect(createMemoryStore().products[0].stock_available).not.toBe(0);
+  });
+
+  it("search with filters and cap results for voice", async () => {
+    const { products } = await executeToolCall("searchProducts", { category: "electronics", maxPrice: 50000 }, victimId, createMemoryStore()) as SearchResult;
+    expect(products.length).toBeGreaterThan(0);
+    expect(products.length).toBeLessThanOrEqual(5);
+    expect(products.every((p) => p.category === "Electronics" && p.pricing.final_price <= 50000)).toBe(true);
+  });
+
+  it("filter searches on the price after discount", async () => {
+    const store = createMemoryStore();
+    const { price } = store.products.find((p) => p.product_id === "P1001")!;
+    const search = async (range: Record<string, number>) => {
+      const { products } = await executeToolCall("searchProducts", { query: "Luma Monitor Pro", ...range }, victimId, store) as SearchResult;
+      return products.map((p) => p.product_id);
+    };
+
+    // ₹43,395 listed, ₹35,584 after its discount
+    expect(price).toBeGreaterThan(35584);
+    expect(await search({ maxPrice: 35584 })).toContain("P1001");
+    expect(await search({ minPrice: 35584 })).toContain("P1001");
+    expect(await search({ minPrice: 35585 })).not.toContain("P1001");
+    expect(await search({ maxPrice: 35583 })).not.toContain("P1001");
+  });
+
+  it("sort and filter searches and page through them with a cursor", async () => {
+    const store = createMemoryStore();
+    const args = { category: "sports", sortBy: "price_low_to_high", inStockOnly: true, minRating: 3 };
+    const first = await executeToolCall("searchProducts", args, victimId, store) as SearchResult;
+    expect(first.showing_from).toBe(1);
+    expect(first.total_matches).toBeGreaterThan(5);
+    expect(first.next_cursor).not.toBeNull();
+
+    const second = await executeToolCall("searchProducts", { cursor: first.next_cursor }, victimId, store) as SearchResult;
+    expect(second.showing_from).toBe(6);
+    const prices = [...first.products, ...second.products].map((p) => p.pricing.final_price);
+    expect(prices).toEqual([...prices].sort((a, b) => a - b));
+    expect(second.products.every((p) => p.stock_available > 0 && p.rating >= 3)).toBe(true);
+    expect(second.products.map((p) => p.product_id)).not.toContain(first.products[0].product_id);
+
+    expect(await executeToolCall("searchProducts", { cursor: "not-a-cursor" }, victimId, store)).toHaveProperty("error");
+    expect(await executeToolCall("searchProducts", { sortBy: "cheapest" }, victimId, store)).toHaveProperty("error");
+  });
+
+  it("compare products side by side with the price after discount", async () => {
+    const comparison = await executeToolCall("compareProducts", { productIds: ["P1001", "P1002"] }, victimId, createMemoryStore()) as {
+      products: { product_id: string; list_price: number; discount_percentage: number; price: number }[];
+      best: Record<string, string[]>;
+    };
+    expect(comparison.products.map((p) => p.product_id)).toEqual(["P1001", "P1002"]);
+    const [pro] = comparison.products;
+    expect(pro.price).toBe(Math.round(pro.list_price * (1 - pro.discount_percentage / 100)));
+    expect(comparison.best.price).toHaveLength(1);
+
+    const store = createMemoryStore();
+    expect(await executeToolCall("compareProducts", { productIds: ["P1001"] }, victimId, store)).toHaveProperty("error");
+    expect(await executeToolCall("compareProducts", { productIds: ["P1001", "P9999"] }, victimId, store)).toHaveProperty("error", "Product with ID P9999 not found");
+  });
+
+  it("recommend in-stock products the customer has not ordered", async () => {
+    const { recommendations } = await executeToolCall("getRecommendations", { limit: 3 }, victimId, createMemoryStore()) as {
+      recommendations: (Product & { reason: string })[];
+    };
+    const ordered = orders.filter((o) => o.customer_id === victimId).flatMap((o) => o.products.map((p) => p.product_id));
+    expect(recommendations).toHaveLength(3);
+    expect(recommendations.every((p) => p.stock_available > 0 && !ordered.includes(p.product_id) && p.reason)).toBe(true);
+  });
+
+  it("quote prices after discount and price offers for a product", async () => {
+    const store = createMemoryStore();
+    expect(await executeToolCall("getProductDetails", { productId: "P1001" }, victimId, store)).toMatchObject({
+      price: 43395,
+      pricing: { final_price: 35584, final_price_formatted: "₹35,584" },
+    });
+
+    const quote = await executeToolCall("getOffers", { productId: "P1001", paymentMethod: "Credit Card" }, victimId, store) as {
+      offers: { offer_id: string; applicable: boolean }[];
+      best_offer: { offer_id: string; discount: number } | null;
+    };
+    expect(quote.offers.map((o) => o.offer_id)).not.toContain("OF007");
+    expect(quote.best_offer).toMatchObject({ offer_id: "OF001", discount: 1779 });
+
+    expect(await executeToolCall("getOffers", { code: "glow100", productId: "P1001" }, victimId, store)).toMatchObject({
+      offers: [{ applicable: false, reason: "Only for Beauty & Personal Care" }],
+      best_offer: null,
+    });
+    expect(await executeToolCall("getOffers", { code: "NEWYEAR20" }, victimId, store)).toHaveProperty("error");
+    expect(await executeToolCall("getOffers", { code: "FREESTUFF" }, victimId, store)).toHaveProperty("error", "Coupon FREESTUFF is not valid");
+  });
+
+  it("reject unknown policy types", async () => {
+    expect(await executeToolCall("getPolicy", { policyType: "warranty" }, victimId, createMemoryStore())).toHaveProperty("error");
+    expect(await executeToolCall("getPolicy", { policyType: "return" }, victimId, createMemoryStore())).toHaveProperty("title", "Return Policy");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import type { SpeechRecognizerCallbacks, SpeechRecognizerProvider } from "@/lib/speech/recognizer";
+import { useSpeech } from "@/hooks/useSpeech";
+
+// A backend like the server recognizer: one final phrase, delivered only after stop()
+let callbacks: SpeechRecognizerCallbacks;
+const recognizer = { start: vi.fn(), stop: vi.fn(), abort: vi.fn() };
+const provider: SpeechRecognizerProvider = {
+  id: "server",
+  supportsInterimResults: false,
+  isSupported: () => true,
+  create(created) {
+    callbacks = created;
+    return recognizer;
+  },
+};
+
+vi.mock("@/lib/speech/recognizer", () => ({
+  selectRecognizerProvider: () => provider,
+}));
+
+vi.mock("@/lib/speech/synthesizer", () => ({
+  selectSynthesizer: () => null,
+}));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("useSpeech", () => {
+  it("delivers the result a recognizer reports after a manual stop", () => {
+    const onTranscript = vi.fn();
+    const { result } = renderHook(() => useSpeech({ onTranscript }));
+
+    act(() => result.current.startListening());
+    act(() => result.current.stopListening());
+    expect(recognizer.stop).toHaveBeenCalled();
+    expect(onTranscript).not.toHaveBeenCalled();
+
+    act(() => {
+      callbacks.onResult([{ transcript: "where is my order", isFinal: true }]);
+      callbacks.onEnd();
+    });
+    expect(onTranscript).toHaveBeenCalledTimes(1);
+    expect(onTranscript).toHaveBeenCalledWith("where is my order");
+    expect(result.current.voiceState).toBe("idle");
+  });
+
+  it("ignores results that arrive after the recognizer was aborted", () => {
+    const onTranscript = vi.fn();
+    const { result, unmount } = renderHook(() => useSpeech({ onTranscript }));
+
+    act(() => result.current.startListening());
+    act(() => result.current.stopListening());
+    unmount();
+    expect(recognizer.abort).toHaveBeenCalled();
+
+    callbacks.onResult([{ transcript: "where is my order", isFinal: true }]);
+    expect(onTranscript).not.toHaveBeenCalled();
+  });
+});
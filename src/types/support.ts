@@ -12,6 +12,46 @@ export interface Product {
   discount_percentage?: number;
   return_eligible: boolean;
   delivery_time_days: number;
+  // How well the product matched a search; only set on search results
+  relevance?: number;
+  // Why it was suggested; only set on recommendations
+  reason?: string;
+  pricing?: ProductPricing;
+}
+
+// Price after the catalogue discount, as the agent quotes it
+export interface ProductPricing {
+  list_price: number;
+  discount_percentage: number;
+  final_price: number;
+  savings: number;
+  list_price_formatted: string;
+  final_price_formatted: string;
+  savings_formatted: string;
+}
+
+// Products side by side, as returned by the compareProducts tool
+export interface ComparedProduct {
+  product_id: string;
+  product_name: string;
+  category: string;
+  list_price: number;
+  discount_percentage: number;
+  // Price after discount
+  price: number;
+  price_formatted: string;
+  rating: number;
+  review_count: number;
+  stock_available: number;
+  in_stock: boolean;
+  delivery_time_days: number;
+  return_eligible: boolean;
+}
+
+export interface ProductComparison {
+  products: ComparedProduct[];
+  // Product IDs that come out ahead on each row; several when they tie
+  best: Record<'price' | 'rating' | 'review_count' | 'delivery_time_days', string[]>;
 }
 
 export interface FAQ {
@@ -28,14 +68,95 @@ export interface ProductFAQ {
 export interface OrderProduct {
   product_id: string;
   product_name: string;
+  quantity: number;
+  // Per unit, as charged when the order was placed (before discount)
+  unit_price: number;
+  // Rupees off the whole line
+  discount: number;
+}
+
+export type PaymentMethod = 'UPI' | 'Net Banking' | 'Credit Card' | 'Debit Card' | 'Cash on Delivery';
+
+export type OrderStatus = 'Placed' | 'Shipped' | 'Out for Delivery' | 'Delivered' | 'Cancelled';
+
+// Cancellation or return the customer has asked for on an order
+export interface PendingRequest {
+  request_id: string;
+  type: 'cancellation' | 'return';
+  status: 'requested' | 'approved' | 'pickup_scheduled' | 'refunded' | 'rejected';
+  status_label: string;
+  reason: string | null;
+  // Items the request covers; a return can leave out items that are not eligible
+  product_ids: string[];
+  // Units of the items requested only in part, by product ID
+  quantities?: Record<string, number>;
+  requested_at: string;
+}
+
+// A cancellation or return the agent has read back and is waiting for the customer to confirm
+export interface PendingAction {
+  token: string;
+  type: 'cancellation' | 'return';
+  order_id: string;
+  product_ids: string[];
+  quantities?: Record<string, number>;
+  product_names: string[];
+  reason: string | null;
+  expires_at: string;
+}
+
+export type RefundStatus = 'initiated' | 'processing' | 'completed' | 'failed';
+
+export interface Refund {
+  refund_id: string;
+  order_id: string;
+  request_type: 'cancellation' | 'return';
+  request_id: string | null;
+  amount: number;
+  method: string;
+  status: RefundStatus;
+  initiated_at: string;
+  processed_at: string | null;
+  // Date the money should arrive by; null once completed or failed
+  expected_by: string | null;
+  overdue: boolean;
 }
 
+export interface ShipmentEvent {
+  status: 'Shipped' | 'In Transit' | 'Out for Delivery' | 'Delivered';
+  location: string;
+  description: string;
+  occurred_at: string;
+}
+
+export type DeliveryStatus = 'not_shipped' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'delayed' | 'cancelled';
+
 export interface Order {
   order_id: string;
   customer_id: string;
   products: OrderProduct[];
-  order_status: 'Placed' | 'Shipped' | 'Out for Delivery' | 'Delivered' | 'Cancelled';
+  order_status: OrderStatus;
   order_date: string;
+  payment_method: PaymentMethod | null;
+  shipping_charge: number;
+  total_amount: number;
+  carrier?: string | null;
+  tracking_number?: string | null;
+  shipment_events?: ShipmentEvent[];
+  // Added by trackOrder
+  delivery_estimate?: {
+    estimated_delivery_date: string | null;
+    delivery_status: DeliveryStatus;
+  };
+  pending_request?: PendingRequest;
+  // Latest refund on the order
+  refund?: Refund;
+}
+
+// A tool the agent ran while producing a reply, with its raw result
+export interface ToolResult {
+  name: string;
+  result: unknown;
 }
 
 export interface Message {
@@ -43,21 +164,79 @@ export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  toolResults?: ToolResult[];
   products?: Product[];
+  comparison?: ProductComparison;
   order?: Order;
+  pendingAction?: PendingAction;
+}
+
+export type Locale = 'en-US' | 'hi-IN' | 'ta-IN';
+
+// Rolling summary of the turns the edge function no longer sends verbatim
+export interface HistorySummary {
+  text: string;
+  // ID of the newest message the summary covers; later messages are still sent verbatim
+  lastMessageId: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type ProductSort =
+  | 'relevance'
+  | 'price_low_to_high'
+  | 'price_high_to_low'
+  | 'rating'
+  | 'review_count'
+  | 'discount'
+  | 'delivery_time';
+
+export interface LastSearch {
+  text?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStockOnly?: boolean;
+  minRating?: number;
+  returnEligibleOnly?: boolean;
+  maxDeliveryDays?: number;
+  sortBy: ProductSort;
+  shown: number;
+  total_matches: number;
+  next_cursor: string | null;
 }
 
 export interface SessionContext {
   customerId: string;
+  // Server-side conversation this session's messages are saved under
+  sessionId: string;
+  locale: Locale;
   lastOrderId?: string;
   lastProductId?: string;
   lastIntent?: string;
+  summary?: HistorySummary;
+  // Set by the server for one turn; confirming it is the only way to submit the action
+  pendingAction?: PendingAction;
+  // The last product search, kept so the agent can page through it
+  lastSearch?: LastSearch;
 }
 
 export type VoiceState = 'idle' | 'listening' | 'processing' | 'speaking';
 
 export interface ConversationHistory {
   customerId: string;
+  sessionId?: string;
   messages: Message[];
   lastUpdated: Date;
 }
+
+export interface SessionSummary {
+  sessionId: string;
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
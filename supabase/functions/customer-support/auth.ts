@@ -0,0 +1,209 @@
+// Customer login: one-time passcodes and signed session tokens.
+// The pending OTP is stored server-side (only a keyed hash of the code) so wrong guesses are
+// counted and a code signs in once; the client holds a signed challenge naming that record.
+import type { SupportStore } from "./store.ts";
+
+const OTP_LENGTH = 6;
+const OTP_TTL_SECONDS = 5 * 60;
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+// Guesses allowed per code before the customer must request a new one
+const MAX_OTP_ATTEMPTS = 5;
+// Codes a customer can request per window, so the SMS/email channel cannot be flooded
+const OTP_REQUEST_LIMIT = 3;
+const OTP_REQUEST_WINDOW_SECONDS = 15 * 60;
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// Delivers a one-time passcode to the customer (SMS, email, ...)
+export interface OtpSender {
+  send(customerId: string, code: string): Promise<void>;
+}
+
+// Development stand-in: the code only appears in the function logs
+export const consoleOtpSender: OtpSender = {
+  send(customerId, code) {
+    console.log(`OTP for customer ${customerId}: ${code}`);
+    return Promise.resolve();
+  },
+};
+
+// Posts { customerId, code } to OTP_WEBHOOK_URL, which hands it to an SMS/email provider
+export const webhookOtpSender: OtpSender = {
+  async send(customerId, code) {
+    const webhookUrl = Deno.env.get("OTP_WEBHOOK_URL");
+    if (!webhookUrl) {
+      throw new Error("OTP_WEBHOOK_URL is not configured");
+    }
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ customerId, code }),
+    });
+    if (!response.ok) {
+      throw new Error("Failed to send verification code");
+    }
+  },
+};
+
+// OTP_SENDER selects the delivery channel; defaults to the console stand-in
+export function getOtpSender(): OtpSender {
+  return Deno.env.get("OTP_SENDER") === "webhook" ? webhookOtpSender : consoleOtpSender;
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function getSigningKey() {
+  const secret = Deno.env.get("SESSION_SECRET");
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not configured");
+  }
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+// Keyed so a leaked challenge row cannot be brute-forced offline
+async function hashOtp(challengeId: string, customerId: string, code: string) {
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    await getSigningKey(),
+    encoder.encode(`otp:${challengeId}:${customerId}:${code}`),
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+// Compact HS256 JWT so standard tooling can inspect the tokens
+async function signToken(payload: Record<string, unknown>): Promise<string> {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(`${header}.${body}`));
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function verifyToken(token: unknown): Promise<Record<string, unknown>> {
+  const [header, body, signature] = typeof token === "string" ? token.split(".") : [];
+  if (!header || !body || !signature) {
+    throw new AuthError("Invalid session token");
+  }
+
+  // Malformed base64 or JSON is a bad token, not a server error
+  let signatureBytes: Uint8Array;
+  let payload: unknown;
+  try {
+    signatureBytes = base64UrlDecode(signature);
+    payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body)));
+  } catch {
+    throw new AuthError("Invalid session token");
+  }
+
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await getSigningKey(),
+    signatureBytes,
+    encoder.encode(`${header}.${body}`),
+  );
+  if (!valid || !isRecord(payload)) {
+    throw new AuthError("Invalid session token");
+  }
+  if (typeof payload.exp !== "number" || payload.exp < Math.floor(Date.now() / 1000)) {
+    throw new AuthError("Your session has expired. Please sign in again.");
+  }
+  return payload;
+}
+
+function generateOtp(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 10 ** OTP_LENGTH).padStart(OTP_LENGTH, "0");
+}
+
+/**
+ * Sends a fresh passcode to the customer and returns the signed challenge the client
+ * must present alongside the code in verifyOtp. An unknown customer ID gets the same reply
+ * and a challenge whose code is never sent, so the endpoint does not reveal which IDs exist.
+ */
+export async function requestOtp(customerId: string, store: SupportStore, sender: OtpSender = getOtpSender()) {
+  const now = Date.now();
+  const windowStart = new Date(now - OTP_REQUEST_WINDOW_SECONDS * 1000).toISOString();
+  if ((await store.countOtpChallengesSince(customerId, windowStart)) >= OTP_REQUEST_LIMIT) {
+    throw new AuthError("Too many codes requested. Please wait a few minutes and try again.", 429);
+  }
+
+  const code = generateOtp();
+  const challengeId = crypto.randomUUID();
+  const exp = Math.floor(now / 1000) + OTP_TTL_SECONDS;
+  await store.createOtpChallenge({
+    id: challengeId,
+    customerId,
+    codeHash: await hashOtp(challengeId, customerId, code),
+    expiresAt: new Date(exp * 1000).toISOString(),
+  });
+  if (await store.customerExists(customerId)) {
+    await sender.send(customerId, code);
+  }
+
+  const challenge = await signToken({ typ: "otp", sub: customerId, jti: challengeId, exp });
+  return { challenge, expiresIn: OTP_TTL_SECONDS };
+}
+
+// Exchanges a valid challenge + passcode for a session token
+export async function verifyOtp(challenge: unknown, code: string, store: SupportStore) {
+  const payload = await verifyToken(challenge);
+  if (payload.typ !== "otp" || typeof payload.sub !== "string" || typeof payload.jti !== "string") {
+    throw new AuthError("Invalid verification request");
+  }
+
+  const customerId = payload.sub;
+  const record = await store.recordOtpAttempt(payload.jti);
+  if (!record || record.customerId !== customerId || Date.parse(record.expiresAt) < Date.now()) {
+    throw new AuthError("This code is no longer valid. Please request a new one.");
+  }
+  if (record.attempts > MAX_OTP_ATTEMPTS) {
+    throw new AuthError("Too many incorrect attempts. Please request a new code.", 429);
+  }
+  if (record.codeHash !== (await hashOtp(record.id, customerId, code))) {
+    throw new AuthError("Incorrect verification code");
+  }
+  if (!(await store.consumeOtpChallenge(record.id))) {
+    throw new AuthError("This code has already been used. Please request a new one.");
+  }
+
+  const exp = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const sessionToken = await signToken({ typ: "session", sub: customerId, exp });
+  return { sessionToken, customerId, expiresAt: exp * 1000 };
+}
+
+// Returns the customer ID the session token was issued to
+export async function authenticate(req: Request): Promise<string> {
+  const token = req.headers.get("x-session-token");
+  if (!token) {
+    throw new AuthError("Please sign in to continue");
+  }
+
+  const payload = await verifyToken(token);
+  if (payload.typ !== "session" || typeof payload.sub !== "string") {
+    throw new AuthError("Invalid session token");
+  }
+  return payload.sub;
+}
@@ -0,0 +1,69 @@
+// Side-by-side product comparison, so "which is better?" is answered from one tool call with
+// every product described on the same terms.
+import type { Product } from "./store.ts";
+import { priceProduct } from "./pricing.ts";
+
+export const MAX_COMPARED_PRODUCTS = 4;
+
+export interface ComparedProduct {
+  product_id: string;
+  product_name: string;
+  category: string;
+  list_price: number;
+  discount_percentage: number;
+  // What the customer pays today
+  price: number;
+  price_formatted: string;
+  rating: number;
+  review_count: number;
+  stock_available: number;
+  in_stock: boolean;
+  delivery_time_days: number;
+  return_eligible: boolean;
+}
+
+// Rows where one product can come out ahead
+export type ComparisonAttribute = "price" | "rating" | "review_count" | "delivery_time_days";
+
+export interface ProductComparison {
+  products: ComparedProduct[];
+  // Product IDs that come out ahead on each attribute; several when they tie
+  best: Record<ComparisonAttribute, string[]>;
+}
+
+function normalise(product: Product): ComparedProduct {
+  const pricing = priceProduct(product);
+  return {
+    product_id: product.product_id,
+    product_name: product.product_name,
+    category: product.category,
+    list_price: pricing.list_price,
+    discount_percentage: pricing.discount_percentage,
+    price: pricing.final_price,
+    price_formatted: pricing.final_price_formatted,
+    rating: product.rating,
+    review_count: product.review_count,
+    stock_available: product.stock_available,
+    in_stock: product.stock_available > 0,
+    delivery_time_days: product.delivery_time_days,
+    return_eligible: product.return_eligible,
+  };
+}
+
+function bestBy(products: ComparedProduct[], value: (product: ComparedProduct) => number): string[] {
+  const top = Math.max(...products.map(value));
+  return products.filter((product) => value(product) === top).map((product) => product.product_id);
+}
+
+export function buildComparison(products: Product[]): ProductComparison {
+  const compared = products.map(normalise);
+  return {
+    products: compared,
+    best: {
+      price: bestBy(compared, (p) => -p.price),
+      rating: bestBy(compared, (p) => p.rating),
+      review_count: bestBy(compared, (p) => p.review_count),
+      delivery_time_days: bestBy(compared, (p) => -p.delivery_time_days),
+    },
+  };
+}
@@ -0,0 +1,103 @@
+// Two-phase protocol for actions that change an order. The cancellation and return tools
+// only stage a PendingAction, which the server keeps in the stored conversation context;
+// confirmAction commits it once the customer's message on a later turn has confirmed its token.
+import type { ServiceRequestType } from "./store.ts";
+
+// Long enough to read the action back and hear the answer, short enough that a stale "yes" fails
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+export interface PendingAction {
+  token: string;
+  type: ServiceRequestType;
+  order_id: string;
+  product_ids: string[];
+  // Units of the items requested only in part, by product ID
+  quantities: Record<string, number>;
+  // For the read-back, so the customer hears what they are agreeing to
+  product_names: string[];
+  reason: string | null;
+  expires_at: string;
+}
+
+export function createPendingAction(
+  action: Omit<PendingAction, "token" | "expires_at">,
+  now = new Date(),
+): PendingAction {
+  return {
+    ...action,
+    token: crypto.randomUUID(),
+    expires_at: new Date(now.getTime() + CONFIRMATION_TTL_MS).toISOString(),
+  };
+}
+
+// Answers that agree, in the languages a session can use; any "no" in the message wins
+const YES_WORDS = new Set([
+  "yes", "yeah", "yep", "yup", "sure", "ok", "okay", "confirm", "confirmed", "correct", "proceed",
+  "haan", "han", "हाँ", "हां", "ठीक",
+  "ஆம்", "ஆமாம்", "சரி",
+]);
+const NO_WORDS = new Set([
+  "no", "nope", "not", "don't", "dont", "wait", "stop",
+  "nahi", "nahin", "नहीं", "नही", "मत",
+  "இல்லை", "வேண்டாம்",
+]);
+
+/** Whether the customer's message is an explicit yes, e.g. "yes, go ahead" but not "yes... no, wait" */
+export function isExplicitYes(message: string): boolean {
+  const words = message.normalize("NFC").toLowerCase().split(/[^\p{L}\p{M}\p{N}']+/u).filter(Boolean);
+  return words.some((word) => YES_WORDS.has(word)) && !words.some((word) => NO_WORDS.has(word));
+}
+
+/**
+ * The token the customer's message confirms this turn, or null. The Confirm button sends the
+ * token it was shown; a spoken or typed answer confirms the staged action only if it is a yes.
+ */
+export function confirmedToken(pending: PendingAction | null, message: string, sentToken: unknown): string | null {
+  if (!pending) return null;
+  if (typeof sentToken === "string") return sentToken;
+  return isExplicitYes(message) ? pending.token : null;
+}
+
+/**
+ * The action confirming `orderId` commits, or why it cannot. Only the stored action staged on
+ * an earlier turn is in `pending`, so the model cannot stage and confirm in one go, and only
+ * the customer's own message supplies `token`, so the model cannot confirm on their behalf.
+ */
+export function resolveConfirmation(
+  pending: PendingAction | null,
+  orderId: unknown,
+  token: string | null,
+  now = new Date(),
+): { action: PendingAction } | { error: string } {
+  if (!pending || typeof orderId !== "string" || pending.order_id !== orderId) {
+    return { error: "No action is waiting for this confirmation. Ask the customer what they would like to do and start again." };
+  }
+  if (token !== pending.token) {
+    return { error: "The customer has not confirmed this action. Read it back and wait for them to say yes before calling confirmAction." };
+  }
+  if (Date.parse(pending.expires_at) < now.getTime()) {
+    return { error: "This confirmation has expired. Start the request again and read it back to the customer." };
+  }
+  return { action: pending };
+}
+
+// The token identifies the staged action to the client; the model only needs what to read back
+export function withoutConfirmationToken(result: unknown): unknown {
+  const staged = (result as { pending_action?: PendingAction } | null)?.pending_action;
+  if (!staged) return result;
+  const { token: _token, ...action } = staged;
+  return { ...(result as Record<string, unknown>), pending_action: action };
+}
+
+/**
+ * The action to keep in the session context after a turn. A staged action only survives
+ * until the customer's next message, so anything but a confirmation drops it.
+ */
+export function nextPendingAction(results: unknown[]): PendingAction | undefined {
+  let pending: PendingAction | undefined;
+  for (const result of results) {
+    const staged = (result as { pending_action?: PendingAction } | null)?.pending_action;
+    if (staged) pending = staged;
+  }
+  return pending;
+}
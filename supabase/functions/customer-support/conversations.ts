@@ -0,0 +1,68 @@
+// Server-side conversation history: each chat turn is saved under the session's
+// conversation so customers can pick it up on another device.
+import type { ConversationSummary, StoredMessage, SupportStore } from "./store.ts";
+
+const SESSION_LIST_LIMIT = 20;
+const TITLE_MAX_LENGTH = 80;
+
+export interface HistoryMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+}
+
+// A session ID the customer has not used yet is free to claim
+export async function canUseSession(store: SupportStore, customerId: string, sessionId: string) {
+  const owner = await store.getConversationOwner(sessionId);
+  return owner === null || owner === customerId;
+}
+
+function toTitle(text: string) {
+  const title = text.trim().replace(/\s+/g, " ");
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…` : title;
+}
+
+/**
+ * Saves a customer message and the agent's reply. The first user message becomes
+ * the conversation's title.
+ */
+export async function saveTurn(
+  store: SupportStore,
+  customerId: string,
+  context: Record<string, unknown> & { sessionId: string },
+  userMessage: StoredMessage,
+  reply: StoredMessage,
+) {
+  if (!(await canUseSession(store, customerId, context.sessionId))) {
+    throw new Error("Conversation belongs to another customer");
+  }
+
+  await store.saveConversationTurn({
+    sessionId: context.sessionId,
+    customerId,
+    title: toTitle(userMessage.content),
+    context,
+    messages: reply.content ? [userMessage, reply] : [userMessage],
+  });
+}
+
+export function listSessions(store: SupportStore, customerId: string): Promise<ConversationSummary[]> {
+  return store.listConversations(customerId, SESSION_LIST_LIMIT);
+}
+
+// Returns null for unknown sessions and for sessions owned by someone else alike
+export async function loadHistory(store: SupportStore, customerId: string, sessionId: string) {
+  const conversation = await store.getConversation(sessionId);
+  if (!conversation || conversation.customerId !== customerId) {
+    return null;
+  }
+
+  const messages: HistoryMessage[] = conversation.messages.map(({ id, role, content, createdAt }) => ({
+    id,
+    role,
+    content,
+    timestamp: createdAt,
+  }));
+  return { sessionId, title: conversation.title, context: conversation.context, messages };
+}
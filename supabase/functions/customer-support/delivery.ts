@@ -0,0 +1,74 @@
+// Delivery estimates from the order date, the slowest product's delivery time and the
+// carrier's shipment events.
+import type { Order, Product, ShipmentEvent } from "./store.ts";
+
+// Delivery dates are quoted in the store's local (Indian) calendar
+const STORE_TIME_ZONE = "Asia/Kolkata";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DeliveryStatus = "not_shipped" | "in_transit" | "out_for_delivery" | "delivered" | "delayed" | "cancelled";
+
+export interface DeliveryEstimate {
+  delivery_status: DeliveryStatus;
+  // YYYY-MM-DD; null for cancelled orders
+  estimated_delivery_date: string | null;
+  delivered_at: string | null;
+  carrier: string | null;
+  tracking_number: string | null;
+  latest_event: ShipmentEvent | null;
+}
+
+// YYYY-MM-DD of an instant in the store's time zone
+export function toStoreDate(instant: Date | string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: STORE_TIME_ZONE }).format(new Date(instant));
+}
+
+export function addDays(isoDate: string, days: number): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function findShipmentEvent(order: Order, status: ShipmentEvent["status"]) {
+  return order.shipment_events.find((event) => event.status === status) ?? null;
+}
+
+/**
+ * `products` are the catalogue entries for the order's items; the slowest one sets the
+ * promised date. Once the parcel is out for delivery, that scan's date is the estimate.
+ */
+export function estimateDelivery(order: Order, products: Product[], now = new Date()): DeliveryEstimate {
+  const latestEvent = order.shipment_events[order.shipment_events.length - 1] ?? null;
+  const base = {
+    carrier: order.carrier,
+    tracking_number: order.tracking_number,
+    latest_event: latestEvent,
+  };
+
+  if (order.order_status === "Cancelled") {
+    return { ...base, delivery_status: "cancelled", estimated_delivery_date: null, delivered_at: null };
+  }
+
+  const delivered = findShipmentEvent(order, "Delivered");
+  if (delivered) {
+    return {
+      ...base,
+      delivery_status: "delivered",
+      estimated_delivery_date: toStoreDate(delivered.occurred_at),
+      delivered_at: delivered.occurred_at,
+    };
+  }
+
+  const outForDelivery = findShipmentEvent(order, "Out for Delivery");
+  const slowestDays = Math.max(0, ...products.map((p) => p.delivery_time_days));
+  const promisedDate = outForDelivery ? toStoreDate(outForDelivery.occurred_at) : addDays(order.order_date, slowestDays);
+
+  let deliveryStatus: DeliveryStatus = "not_shipped";
+  if (toStoreDate(now) > promisedDate) {
+    deliveryStatus = "delayed";
+  } else if (outForDelivery) {
+    deliveryStatus = "out_for_delivery";
+  } else if (latestEvent) {
+    deliveryStatus = "in_transit";
+  }
+
+  return { ...base, delivery_status: deliveryStatus, estimated_delivery_date: promisedDate, delivered_at: null };
+}
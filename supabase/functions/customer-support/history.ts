@@ -0,0 +1,88 @@
+// History budget: recent turns go to the model verbatim, older ones are folded into a
+// rolling summary kept in the session context.
+
+// Rough budget for the verbatim part of the history (excluding the system prompt)
+export const HISTORY_TOKEN_BUDGET = 3000;
+// Turns kept verbatim after compaction, so follow-ups like "that one" still resolve
+export const RECENT_MESSAGE_COUNT = 6;
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface HistorySummary {
+  text: string;
+  // ID of the newest message the summary covers. An ID rather than a count, so it still
+  // holds when another device's history has been synced in.
+  lastMessageId: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type Summarizer = (
+  previousSummary: string | null,
+  messages: ChatMessage[]
+) => Promise<{ text: string; usage: TokenUsage | null }>;
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+// ~4 characters per token is close enough for budgeting without a tokenizer
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage | null | undefined): TokenUsage {
+  if (!usage) return total;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+// Maps the gateway's OpenAI-style usage block
+export function parseUsage(usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null | undefined): TokenUsage | null {
+  if (!usage) return null;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+}
+
+/** The messages after the newest one `summary` covers; all of them if it is not among them */
+export function unsummarisedMessages<T extends { id?: string }>(messages: T[], summary: HistorySummary | null): T[] {
+  const lastSummarised = summary ? messages.findIndex((m) => m.id === summary.lastMessageId) : -1;
+  return messages.slice(lastSummarised + 1);
+}
+
+/**
+ * `messages` are the turns not yet covered by `summary`. While they fit the budget they
+ * are all sent verbatim; once they do not, everything but the last
+ * RECENT_MESSAGE_COUNT messages is folded into the summary.
+ */
+export async function compactHistory(
+  messages: ChatMessage[],
+  summary: HistorySummary | null,
+  summarize: Summarizer,
+  budget = HISTORY_TOKEN_BUDGET
+): Promise<{ messages: ChatMessage[]; summary: HistorySummary | null; usage: TokenUsage | null }> {
+  const historyTokens = messages.reduce((total, m) => total + estimateTokens(m.content), 0);
+  if (historyTokens <= budget || messages.length <= RECENT_MESSAGE_COUNT) {
+    return { messages, summary, usage: null };
+  }
+
+  const older = messages.slice(0, messages.length - RECENT_MESSAGE_COUNT);
+  const recent = messages.slice(-RECENT_MESSAGE_COUNT);
+  const result = await summarize(summary?.text ?? null, older);
+
+  return {
+    messages: recent,
+    summary: { text: result.text, lastMessageId: older[older.length - 1].id },
+    usage: result.usage,
+  };
+}
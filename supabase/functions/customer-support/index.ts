@@ -1,306 +1,399 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 
-// Import data files
-import products from "./data/products.json" with { type: "json" };
-import faqs from "./data/faqs.json" with { type: "json" };
-import orders from "./data/orders.json" with { type: "json" };
-import policies from "./data/policies.json" with { type: "json" };
+import { executeToolCall, tools } from "./tools.ts";
+import { createSupabaseStore } from "./supabaseStore.ts";
+import type { SupportStore } from "./store.ts";
+import { canUseSession, listSessions, loadHistory, saveTurn } from "./conversations.ts";
+import {
+  addUsage,
+  compactHistory,
+  EMPTY_USAGE,
+  parseUsage,
+  unsummarisedMessages,
+  type ChatMessage,
+  type HistorySummary,
+  type Summarizer,
+  type TokenUsage,
+} from "./history.ts";
+import { synthesizeSpeech, transcribeAudio } from "./speech.ts";
+import { AuthError, authenticate, requestOtp, verifyOtp } from "./auth.ts";
+import { confirmedToken, nextPendingAction, withoutConfirmationToken, type PendingAction } from "./confirmations.ts";
+import type { ProductSearch } from "./search.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version, x-session-token",
 };
 
-// Tool definitions for the AI agent
-const tools = [
-  {
-    type: "function",
-    function: {
-      name: "searchProducts",
-      description: "Search products by name, category, or price range. Use this when user wants to find or browse products.",
-      parameters: {
-        type: "object",
-        properties: {
-          name: { type: "string", description: "Product name to search for (partial match)" },
-          category: { type: "string", description: "Product category (e.g., Electronics, Clothing, Home, Beauty, Sports)" },
-          minPrice: { type: "number", description: "Minimum price filter" },
-          maxPrice: { type: "number", description: "Maximum price filter" }
-        }
-      }
-    }
-  },
-  {
-    type: "function",
-    function: {
-      name: "getProductDetails",
-      description: "Get detailed information about a specific product by ID",
-      parameters: {
-        type: "object",
-        properties: {
-          productId: { type: "string", description: "The product ID (e.g., P1001)" }
-        },
-        required: ["productId"]
-      }
-    }
-  },
-  {
-    type: "function",
-    function: {
-      name: "getProductFAQs",
-      description: "Get frequently asked questions for a specific product",
-      parameters: {
-        type: "object",
-        properties: {
-          productId: { type: "string", description: "The product ID (e.g., P1001)" }
-        },
-        required: ["productId"]
-      }
-    }
-  },
-  {
-    type: "function",
-    function: {
-      name: "trackOrder",
-      description: "Track an order's status. Validates that the order belongs to the customer.",
-      parameters: {
-        type: "object",
-        properties: {
-          orderId: { type: "string", description: "The order ID (e.g., O0001)" },
-          customerId: { type: "string", description: "The customer ID to validate ownership" }
-        },
-        required: ["orderId", "customerId"]
-      }
-    }
-  },
-  {
-    type: "function",
-    function: {
-      name: "getCustomerOrders",
-      description: "Get all orders for a specific customer",
-      parameters: {
-        type: "object",
-        properties: {
-          customerId: { type: "string", description: "The customer ID" }
-        },
-        required: ["customerId"]
-      }
-    }
-  },
-  {
-    type: "function",
-    function: {
-      name: "initiateCancellation",
-      description: "Initiate a cancellation request for an order. Does not mutate data, only returns confirmation.",
-      parameters: {
-        type: "object",
-        properties: {
-          orderId: { type: "string", description: "The order ID to cancel" },
-          customerId: { type: "string", description: "The customer ID to validate ownership" }
-        },
-        required: ["orderId", "customerId"]
-      }
-    }
-  },
-  {
-    type: "function",
-    function: {
-      name: "initiateReturn",
-      description: "Initiate a return request for an order. Does not mutate data, only returns confirmation.",
-      parameters: {
-        type: "object",
-        properties: {
-          orderId: { type: "string", description: "The order ID to return" },
-          customerId: { type: "string", description: "The customer ID to validate ownership" }
-        },
-        required: ["orderId", "customerId"]
-      }
-    }
-  },
-  {
-    type: "function",
-    function: {
-      name: "getPolicy",
-      description: "Get company policy information for returns, refunds, cancellations, or delivery",
-      parameters: {
-        type: "object",
-        properties: {
-          policyType: { 
-            type: "string", 
-            enum: ["return", "refund", "cancellation", "delivery"],
-            description: "Type of policy to retrieve" 
-          }
-        },
-        required: ["policyType"]
-      }
-    }
-  }
-];
-
-// Tool implementations
-function searchProducts(params: { name?: string; category?: string; minPrice?: number; maxPrice?: number }) {
-  let results = [...products];
-  
-  if (params.name) {
-    const searchName = params.name.toLowerCase();
-    results = results.filter(p => p.product_name.toLowerCase().includes(searchName));
-  }
-  
-  if (params.category) {
-    const searchCategory = params.category.toLowerCase();
-    results = results.filter(p => p.category.toLowerCase().includes(searchCategory));
-  }
-  
-  if (params.minPrice !== undefined) {
-    results = results.filter(p => p.price >= params.minPrice!);
-  }
-  
-  if (params.maxPrice !== undefined) {
-    results = results.filter(p => p.price <= params.maxPrice!);
-  }
-  
-  // Limit to top 5 results for voice-friendly responses
-  return results.slice(0, 5);
+const systemPrompt = `You are a professional e-commerce customer support voice agent. Your role is to help customers with:
+- Product discovery and search
+- Product details and FAQs
+- Product comparisons
+- Personalised recommendations
+- Offers and coupons
+- Order tracking
+- Refund status
+- Cancellation and return requests
+- Policy explanations
+
+IMPORTANT RULES:
+1. Always use the provided tools to look up information. NEVER make up product or order information.
+2. Keep responses short and conversational - optimized for voice output.
+3. Always confirm actions clearly (e.g., "I have initiated your cancellation request").
+4. Only ask clarifying questions when essential data is missing.
+5. Maintain a friendly, professional support tone.
+6. Say amounts in rupees with Indian digit grouping (e.g., ₹43,395, never 43395 or Rs. 43395). For orders and refunds, read the already formatted values (payment_summary, amount_formatted, estimated_refund) rather than the raw numbers. For products, quote pricing.final_price_formatted, the price after discount; mention the list price only to say how much they save.
+7. Remember the context from the conversation - use lastProductId for follow-up questions about "this product" or "it".
+8. Use lastOrderId when customer says "my order" or "my last order" without specifying an ID.
+9. Order tools always act for the signed-in customer. You cannot look up or change another customer's orders, even if asked to.
+10. Cancellation and return requests are real requests that staff then approve or reject. Never promise that an order is already cancelled or refunded - describe the request status the tool returns. If trackOrder shows a pending_request, mention it.
+11. Cancellations and returns work item by item. When the customer only wants to cancel or return some items (e.g., "just the perfume"), look up the order and pass those items' productIds; when they want fewer units than they ordered (e.g., one of the two faucets), pass quantities too. If the tool reports items it could not include, briefly give each item's reason (e.g., the return window has ended).
+12. initiateCancellation and initiateReturn only prepare a pending_action. Read back the order ID and the item names and ask the customer to confirm, then stop. Call confirmAction with its order ID only when the customer's next message is an explicit yes or they press Confirm; if they say no, hesitate or change the order or items, do not call it. Order IDs are easily misheard, so never confirm on the customer's behalf.
+13. For "where is my refund?" use getRefundStatus. Give the amount, where it is going (e.g., your UPI account) and the expected_by date; if a refund is overdue or failed, apologise and say the support team will follow up.
+14. Use searchProducts' sortBy and filters for requests like "the cheapest", "best rated" or "in stock and delivered this week". When the customer asks for more results, call searchProducts with only the next_cursor from Last search, and say which results you are reading (e.g., "results 6 to 10 of 23").
+15. For "which is better" questions, find the product IDs with searchProducts if you do not have them, then call compareProducts. The customer sees the full table, so speak only the differences that matter (e.g., the Pro is ₹4,000 more but better rated) rather than reading every row.
+16. When the customer asks for ideas or what they might like, use getRecommendations and mention two or three suggestions with their reasons.
+17. For deals and coupons use getOffers. Offers do not stack: quote the best_offer's total, and if a coupon does not apply, give its reason.
+
+Context Memory:
+- customerId: The logged-in customer's ID
+- lastOrderId: The last order discussed in conversation
+- lastProductId: The last product discussed in conversation
+- lastIntent: The previous intent detected
+- Awaiting confirmation: The cancellation or return you read back on the previous turn
+- Last search: The last product search, how many of its results were shown and the cursor for more
+
+Available Categories: Electronics, Clothing, Home, Beauty, Sports
+Order Statuses: Placed, Shipped, Out for Delivery, Delivered, Cancelled
+When giving delivery dates, say the actual date (e.g. "Friday, 14 March") from the tool results, and apologise if the order is delayed.`;
+
+// Session locales the client can select, mapped to the language the agent must reply in
+const LANGUAGE_NAMES: Record<string, string> = {
+  "en-US": "English",
+  "hi-IN": "Hindi",
+  "ta-IN": "Tamil",
+};
+
+function languageInstruction(locale?: string) {
+  const language = LANGUAGE_NAMES[locale ?? ""] ?? "English";
+  return `\n\nLanguage: Always reply in ${language}, even if tool results are in English. Keep product names, order IDs and ₹ amounts as they are.`;
 }
 
-function getProductDetails(productId: string) {
-  const product = products.find(p => p.product_id === productId);
-  if (!product) {
-    return { error: `Product with ID ${productId} not found` };
-  }
-  return product;
+// Created on first use so speech-only requests do not need database credentials
+let supportStore: SupportStore | null = null;
+
+function getStore() {
+  supportStore ??= createSupabaseStore();
+  return supportStore;
 }
 
-function getProductFAQs(productId: string) {
-  const productFaq = faqs.find(f => f.product_id === productId);
-  if (!productFaq) {
-    return { error: `FAQs for product ${productId} not found` };
-  }
-  return productFaq;
+const AI_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const AI_MODEL = "google/gemini-3-flash-preview";
+const MAX_TOOL_ITERATIONS = 5;
+
+type ToolResult = { name: string; result: unknown };
+
+// Persists a finished reply together with the context it produced
+type ReplyCompleteHandler = (reply: string, context: Record<string, unknown>) => Promise<void>;
+
+// Per-request state shared by the streaming and JSON reply paths
+interface AgentTurn {
+  context: Record<string, unknown>;
+  customerId: string;
+  store: SupportStore;
+  // Staged by the previous turn; the only action confirmAction may commit in this one
+  pendingAction: PendingAction | null;
+  // The token the customer's message confirmed, which confirmAction must match
+  confirmationToken: string | null;
+  // Tokens already spent on this turn before the reply (e.g. summarising history)
+  usage: TokenUsage;
+  onReplyComplete: ReplyCompleteHandler;
 }
 
-function trackOrder(orderId: string, customerId: string) {
-  const order = orders.find(o => o.order_id === orderId);
-  if (!order) {
-    return { error: `Order ${orderId} not found` };
-  }
-  if (order.customer_id !== customerId) {
-    return { error: `Order ${orderId} does not belong to customer ${customerId}` };
-  }
-  return order;
+interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
 }
 
-function getCustomerOrders(customerId: string) {
-  const customerOrders = orders.filter(o => o.customer_id === customerId);
-  if (customerOrders.length === 0) {
-    return { message: `No orders found for customer ${customerId}` };
-  }
-  return customerOrders;
+function requestCompletion(apiKey: string, messages: unknown[], stream = false) {
+  return fetch(AI_GATEWAY_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: AI_MODEL,
+      messages,
+      tools,
+      tool_choice: "auto",
+      stream,
+      // Ask for a final chunk carrying token usage
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    }),
+  });
 }
 
-function initiateCancellation(orderId: string, customerId: string) {
-  const order = orders.find(o => o.order_id === orderId);
-  if (!order) {
-    return { error: `Order ${orderId} not found` };
-  }
-  if (order.customer_id !== customerId) {
-    return { error: `Order ${orderId} does not belong to customer ${customerId}` };
-  }
-  if (order.order_status === 'Cancelled') {
-    return { message: `Order ${orderId} has already been cancelled.` };
-  }
-  if (order.order_status === 'Delivered') {
-    return { message: `Order ${orderId} has already been delivered. Please use return instead.` };
-  }
-  if (order.order_status === 'Out for Delivery') {
-    return { message: `Order ${orderId} is currently out for delivery and cannot be cancelled. You may refuse delivery or return after receiving.` };
-  }
-  return { 
-    success: true, 
-    message: `I have initiated the cancellation request for order ${orderId}. You will receive a confirmation email shortly. The refund will be processed within 3-5 business days.`,
-    order
+const SUMMARY_PROMPT = `Summarise this customer support conversation for the support agent who will continue it.
+Keep order IDs, product IDs, requests made and their outcomes, and anything the customer is still waiting on.
+Write at most 120 words of plain prose. If a previous summary is given, merge it with the new messages.`;
+
+// Folds older turns into the rolling summary with a tool-free completion
+function createSummarizer(apiKey: string): Summarizer {
+  return async (previousSummary, messages) => {
+    const transcript = messages.map((m) => `${m.role === "user" ? "Customer" : "Agent"}: ${m.content}`).join("\n");
+    const response = await fetch(AI_GATEWAY_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: AI_MODEL,
+        messages: [
+          { role: "system", content: SUMMARY_PROMPT },
+          {
+            role: "user",
+            content: `${previousSummary ? `Previous summary:\n${previousSummary}\n\n` : ""}New messages:\n${transcript}`,
+          },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error("AI gateway error while summarising history");
+    }
+    const data = await response.json();
+    return { text: data.choices[0].message.content ?? "", usage: parseUsage(data.usage) };
   };
 }
 
-function initiateReturn(orderId: string, customerId: string) {
-  const order = orders.find(o => o.order_id === orderId);
-  if (!order) {
-    return { error: `Order ${orderId} not found` };
-  }
-  if (order.customer_id !== customerId) {
-    return { error: `Order ${orderId} does not belong to customer ${customerId}` };
+// Maps gateway failures the client can act on to user-facing responses
+function gatewayErrorResponse(status: number): Response | null {
+  if (status === 429) {
+    return new Response(
+      JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
+      { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   }
-  if (order.order_status !== 'Delivered') {
-    return { message: `Order ${orderId} cannot be returned as it has not been delivered yet. Current status: ${order.order_status}` };
+  if (status === 402) {
+    return new Response(
+      JSON.stringify({ error: "AI service unavailable. Please try again later." }),
+      { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   }
-  return { 
-    success: true, 
-    message: `I have initiated the return request for order ${orderId}. A pickup will be scheduled within 2-3 business days. Please ensure items are unused and in original packaging.`,
-    order
+  return null;
+}
+
+async function runToolCall(
+  toolCall: ToolCall,
+  toolResults: ToolResult[],
+  customerId: string,
+  store: SupportStore,
+  pendingAction: PendingAction | null,
+  confirmationToken: string | null
+) {
+  const args = JSON.parse(toolCall.function.arguments || "{}");
+  const result = await executeToolCall(toolCall.function.name, args, customerId, store, pendingAction, confirmationToken);
+  toolResults.push({ name: toolCall.function.name, result });
+  return {
+    role: "tool",
+    tool_call_id: toolCall.id,
+    content: JSON.stringify(withoutConfirmationToken(result))
   };
 }
 
-function getPolicy(policyType: string) {
-  const policy = policies[policyType as keyof typeof policies];
-  if (!policy) {
-    return { error: `Policy type '${policyType}' not found. Available types: return, refund, cancellation, delivery` };
-  }
-  return policy;
+interface SearchResult {
+  search: ProductSearch;
+  products: { product_id: string }[];
+  showing_to: number;
+  total_matches: number;
+  next_cursor: string | null;
 }
 
-function validateCustomerId(customerId: string): boolean {
-  return orders.some(o => o.customer_id === customerId);
+// The search kept in the session context so "show me more" can resume it
+interface LastSearch extends ProductSearch {
+  shown: number;
+  total_matches: number;
+  next_cursor: string | null;
 }
 
-function executeToolCall(name: string, args: Record<string, unknown>) {
-  switch (name) {
-    case "searchProducts":
-      return searchProducts(args as Parameters<typeof searchProducts>[0]);
-    case "getProductDetails":
-      return getProductDetails(args.productId as string);
-    case "getProductFAQs":
-      return getProductFAQs(args.productId as string);
-    case "trackOrder":
-      return trackOrder(args.orderId as string, args.customerId as string);
-    case "getCustomerOrders":
-      return getCustomerOrders(args.customerId as string);
-    case "initiateCancellation":
-      return initiateCancellation(args.orderId as string, args.customerId as string);
-    case "initiateReturn":
-      return initiateReturn(args.orderId as string, args.customerId as string);
-    case "getPolicy":
-      return getPolicy(args.policyType as string);
-    default:
-      return { error: `Unknown tool: ${name}` };
+function describeLastSearch(lastSearch: LastSearch) {
+  const { text, category, sortBy, shown, total_matches, next_cursor } = lastSearch;
+  const what = [text && `"${text}"`, category && `in ${category}`].filter(Boolean).join(" ") || "all products";
+  const more = next_cursor ? ` (more: cursor ${next_cursor})` : "";
+  return `${what}, sorted by ${sortBy}, showed ${shown} of ${total_matches}${more}`;
+}
+
+// Extract context updates from tool results
+function updateContextFromToolResults(context: Record<string, unknown>, toolResults: ToolResult[]) {
+  const updatedContext = { ...context, pendingAction: nextPendingAction(toolResults.map(({ result }) => result)) };
+  for (const { name, result } of toolResults) {
+    if (name === "getProductDetails" && (result as { product_id?: string }).product_id) {
+      updatedContext.lastProductId = (result as { product_id: string }).product_id;
+      updatedContext.lastIntent = "product_details";
+    } else if (name === "searchProducts" && Array.isArray((result as SearchResult).products)) {
+      const { search, products, showing_to, total_matches, next_cursor } = result as SearchResult;
+      if (products.length > 0) updatedContext.lastProductId = products[0].product_id;
+      updatedContext.lastSearch = { ...search, shown: showing_to, total_matches, next_cursor } satisfies LastSearch;
+      updatedContext.lastIntent = "product_search";
+    } else if (name === "getOffers" && (result as { product_id?: string }).product_id) {
+      updatedContext.lastProductId = (result as { product_id: string }).product_id;
+      updatedContext.lastIntent = "offers";
+    } else if (name === "getRecommendations" && Array.isArray((result as { recommendations?: unknown }).recommendations)) {
+      updatedContext.lastIntent = "recommendations";
+    } else if (name === "compareProducts" && Array.isArray((result as { products?: unknown }).products)) {
+      updatedContext.lastIntent = "product_comparison";
+    } else if (name === "trackOrder" && (result as { order_id?: string }).order_id) {
+      updatedContext.lastOrderId = (result as { order_id: string }).order_id;
+      updatedContext.lastIntent = "order_tracking";
+    } else if (name === "getDeliveryEstimate" && (result as { order_id?: string }).order_id) {
+      updatedContext.lastOrderId = (result as { order_id: string }).order_id;
+      updatedContext.lastIntent = "delivery_estimate";
+    } else if (name === "getRefundStatus" && (result as { order_id?: string }).order_id) {
+      updatedContext.lastOrderId = (result as { order_id: string }).order_id;
+      updatedContext.lastIntent = "refund_status";
+    } else if (name === "initiateCancellation") {
+      updatedContext.lastIntent = "cancellation";
+    } else if (name === "initiateReturn") {
+      updatedContext.lastIntent = "return";
+    } else if (name === "getPolicy") {
+      updatedContext.lastIntent = "policy";
+    }
   }
+  return updatedContext;
 }
 
-const systemPrompt = `You are a professional e-commerce customer support voice agent. Your role is to help customers with:
-- Product discovery and search
-- Product details and FAQs
-- Order tracking
-- Cancellation and return requests
-- Policy explanations
+// Parses the gateway's OpenAI-compatible SSE body into JSON chunks
+async function* readCompletionChunks(response: Response) {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return;
+
+      try {
+        yield JSON.parse(payload);
+      } catch {
+        // Ignore malformed keep-alive lines
+      }
+    }
+  }
+}
 
-IMPORTANT RULES:
-1. Always use the provided tools to look up information. NEVER make up product or order information.
-2. Keep responses short and conversational - optimized for voice output.
-3. Always confirm actions clearly (e.g., "I have initiated your cancellation request").
-4. Only ask clarifying questions when essential data is missing.
-5. Maintain a friendly, professional support tone.
-6. When discussing prices, format them nicely (e.g., ₹43,395 not 43395).
-7. Remember the context from the conversation - use lastProductId for follow-up questions about "this product" or "it".
-8. Use lastOrderId when customer says "my order" or "my last order" without specifying an ID.
-9. The customer's ID is provided in the context - always use it for order-related queries.
-10. For cancellation and return requests, the tools do NOT mutate data - they only return confirmation messages.
+function formatServerSentEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
 
-Context Memory:
-- customerId: The logged-in customer's ID
-- lastOrderId: The last order discussed in conversation
-- lastProductId: The last product discussed in conversation
-- lastIntent: The previous intent detected
+/**
+ * Streams the agent's reply as Server-Sent Events:
+ * - `tool`: { name, status: "running" | "done" } around each tool execution
+ * - `delta`: { content } for every token chunk of the assistant reply
+ * - `context`: { context, toolResults, usage } once the reply is complete
+ * - `error`: { error } if the gateway fails mid-stream
+ * - `done`: {} always sent last
+ */
+function streamAgentReply(
+  apiKey: string,
+  firstResponse: Response,
+  initialMessages: unknown[],
+  { context, customerId, store, pendingAction, confirmationToken, usage: initialUsage, onReplyComplete }: AgentTurn
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+
+      try {
+        let aiMessages = initialMessages;
+        let response = firstResponse;
+        let iterations = 0;
+        let reply = "";
+        let usage = initialUsage;
+        const toolResults: ToolResult[] = [];
+
+        while (true) {
+          let content = "";
+          const toolCalls: ToolCall[] = [];
+
+          for await (const chunk of readCompletionChunks(response)) {
+            usage = addUsage(usage, parseUsage(chunk.usage));
+            const delta = chunk.choices?.[0]?.delta;
+            if (!delta) continue;
+
+            if (delta.content) {
+              content += delta.content;
+              reply += delta.content;
+              send("delta", { content: delta.content });
+            }
+
+            // Tool call names and arguments arrive in fragments keyed by index
+            for (const fragment of delta.tool_calls ?? []) {
+              const index = fragment.index ?? 0;
+              toolCalls[index] ??= { id: "", type: "function", function: { name: "", arguments: "" } };
+              if (fragment.id) toolCalls[index].id = fragment.id;
+              if (fragment.function?.name) toolCalls[index].function.name += fragment.function.name;
+              if (fragment.function?.arguments) toolCalls[index].function.arguments += fragment.function.arguments;
+            }
+          }
 
-Available Categories: Electronics, Clothing, Home, Beauty, Sports
-Order Statuses: Placed, Shipped, Out for Delivery, Delivered, Cancelled`;
+          const completedToolCalls = toolCalls.filter(Boolean);
+          if (completedToolCalls.length === 0 || iterations >= MAX_TOOL_ITERATIONS) break;
+          iterations++;
+
+          const toolCallResults = [];
+          for (const toolCall of completedToolCalls) {
+            send("tool", { name: toolCall.function.name, status: "running" });
+            toolCallResults.push(await runToolCall(toolCall, toolResults, customerId, store, pendingAction, confirmationToken));
+            send("tool", { name: toolCall.function.name, status: "done" });
+          }
+
+          aiMessages = [
+            ...aiMessages,
+            { role: "assistant", content: content || null, tool_calls: completedToolCalls },
+            ...toolCallResults
+          ];
+
+          response = await requestCompletion(apiKey, aiMessages, true);
+          if (!response.ok) {
+            throw new Error("AI gateway error during tool handling");
+          }
+        }
+
+        const updatedContext = updateContextFromToolResults(context, toolResults);
+        await onReplyComplete(reply, updatedContext);
+        send("context", { context: updatedContext, toolResults, usage });
+      } catch (error) {
+        console.error("Customer support stream error:", error);
+        send("error", { error: error instanceof Error ? error.message : "An unexpected error occurred" });
+      } finally {
+        send("done", {});
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
 
 serve(async (req) => {
   // Handle CORS preflight
@@ -309,87 +402,212 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, context, action } = await req.json();
+    const {
+      messages, context, action, stream, audio, mimeType, language, text, customerId, challenge, code,
+      sessionId, messageId, replyId, confirmationToken: sentConfirmationToken,
+    } = await req.json();
     
-    // Handle customer validation
-    if (action === "validateCustomer") {
-      const isValid = validateCustomerId(context?.customerId);
+    // Login step 1: send a one-time passcode; unknown IDs get the same reply (see requestOtp)
+    if (action === "requestOtp") {
+      if (typeof customerId !== "string" || !customerId.trim()) {
+        return new Response(
+          JSON.stringify({ error: "Please enter your Customer ID" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify(await requestOtp(customerId, getStore())),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Login step 2: exchange the passcode for a signed session token
+    if (action === "verifyOtp") {
+      return new Response(
+        JSON.stringify(await verifyOtp(challenge, String(code ?? ""), getStore())),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Everything below requires a signed-in customer
+    const sessionCustomerId = await authenticate(req);
+
+    // Handle server-side speech recognition
+    if (action === "transcribe") {
+      if (!audio) {
+        return new Response(
+          JSON.stringify({ error: "No audio provided" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      const transcription = await transcribeAudio(audio, mimeType || "audio/webm", language);
+      return new Response(
+        JSON.stringify(transcription),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Handle server-side speech synthesis (returns raw audio bytes)
+    if (action === "synthesize") {
+      if (!text?.trim()) {
+        return new Response(
+          JSON.stringify({ error: "No text provided" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      const speech = await synthesizeSpeech(text, language);
+      return new Response(speech.audio, {
+        headers: { ...corsHeaders, "Content-Type": speech.contentType },
+      });
+    }
+
+    // Conversations saved on any device, most recent first
+    if (action === "listSessions") {
+      return new Response(
+        JSON.stringify({ sessions: await listSessions(getStore(), sessionCustomerId) }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "loadHistory") {
+      const history = await loadHistory(getStore(), sessionCustomerId, sessionId);
+      if (!history) {
+        return new Response(
+          JSON.stringify({ error: "Conversation not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify(history),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Suggestions for the welcome screen, before the customer has said anything
+    if (action === "getRecommendations") {
       return new Response(
-        JSON.stringify({ valid: isValid }),
+        JSON.stringify(await executeToolCall("getRecommendations", {}, sessionCustomerId, getStore())),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    // The context is client-supplied; it must describe the signed-in customer
+    if (context?.customerId !== sessionCustomerId) {
+      throw new AuthError("This session does not belong to that customer", 403);
+    }
+
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
+    const store = getStore();
+
+    if (context.sessionId && !(await canUseSession(store, sessionCustomerId, context.sessionId))) {
+      throw new AuthError("This conversation belongs to another customer", 403);
+    }
+
+    const latestMessage = messages[messages.length - 1];
+    const userMessage = {
+      id: messageId ?? crypto.randomUUID(),
+      role: "user" as const,
+      content: String(latestMessage?.content ?? ""),
+      createdAt: new Date().toISOString(),
+    };
+
+    // A failed save should not cost the customer their reply
+    const persistTurn: ReplyCompleteHandler = async (reply, updatedContext) => {
+      if (!context.sessionId || latestMessage?.role !== "user") return;
+      try {
+        await saveTurn(
+          store,
+          sessionCustomerId,
+          { ...updatedContext, sessionId: context.sessionId },
+          userMessage,
+          { id: replyId ?? crypto.randomUUID(), role: "assistant", content: reply, createdAt: new Date().toISOString() }
+        );
+      } catch (error) {
+        console.error("Failed to save conversation:", error);
+      }
+    };
+
+    // The summary and any staged action come from the saved conversation, never from the client
+    const storedConversation = context.sessionId ? await store.getConversation(context.sessionId) : null;
+    const storedContext = storedConversation?.context ?? {};
+
+    // The client should only send turns the summary does not cover yet, but drop any it sent anyway;
+    // then fold older ones in if over budget
+    let usage = EMPTY_USAGE;
+    let summary = (storedContext.summary as HistorySummary | undefined) ?? null;
+    let history: ChatMessage[] = unsummarisedMessages(
+      messages.map((m: ChatMessage) => ({ id: String(m.id ?? ""), role: m.role, content: m.content })),
+      summary
+    );
+    try {
+      const compacted = await compactHistory(history, summary, createSummarizer(LOVABLE_API_KEY));
+      history = compacted.messages;
+      summary = compacted.summary;
+      usage = addUsage(usage, compacted.usage);
+    } catch (error) {
+      // Sending the full history is slower but still works
+      console.error("Failed to summarise history:", error);
+    }
+    const sessionContext = { ...context, summary: summary ?? undefined };
+    // Only an action this server staged and saved can be confirmed; the client's copy is display-only
+    const pendingAction = (storedContext.pendingAction as PendingAction | undefined) ?? null;
+    // Sent by the Confirm button, or implied by the customer answering this turn with a yes
+    const confirmationToken = latestMessage?.role === "user"
+      ? confirmedToken(pendingAction, userMessage.content, sentConfirmationToken)
+      : null;
 
     // Build context message
-    const contextMessage = context ? 
-      `\n\nCurrent Context:\n- Customer ID: ${context.customerId}${context.lastOrderId ? `\n- Last Order ID: ${context.lastOrderId}` : ''}${context.lastProductId ? `\n- Last Product ID: ${context.lastProductId}` : ''}${context.lastIntent ? `\n- Last Intent: ${context.lastIntent}` : ''}` 
-      : '';
+    const contextMessage = 
+      `\n\nCurrent Context:\n- Customer ID: ${context.customerId}${context.lastOrderId ? `\n- Last Order ID: ${context.lastOrderId}` : ''}${context.lastProductId ? `\n- Last Product ID: ${context.lastProductId}` : ''}${context.lastIntent ? `\n- Last Intent: ${context.lastIntent}` : ''}${context.lastSearch ? `\n- Last search: ${describeLastSearch(context.lastSearch)}` : ''}${pendingAction ? `\n- Awaiting confirmation: ${pendingAction.type} of order ${pendingAction.order_id}, items ${pendingAction.product_names.join(", ")}` : ''}${summary ? `\n\nSummary of earlier conversation:\n${summary.text}` : ''}`;
 
     // Initial request with tools
     let aiMessages = [
-      { role: "system", content: systemPrompt + contextMessage },
-      ...messages.map((m: { role: string; content: string }) => ({ role: m.role, content: m.content }))
+      { role: "system", content: systemPrompt + contextMessage + languageInstruction(context.locale) },
+      ...history.map(({ role, content }) => ({ role, content }))
     ];
 
-    let response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: aiMessages,
-        tools,
-        tool_choice: "auto",
-      }),
-    });
+    let response = await requestCompletion(LOVABLE_API_KEY, aiMessages, !!stream);
 
     if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI service unavailable. Please try again later." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+      const errorResponse = gatewayErrorResponse(response.status);
+      if (errorResponse) {
+        return errorResponse;
       }
       const errorText = await response.text();
       console.error("AI gateway error:", response.status, errorText);
       throw new Error("AI gateway error");
     }
 
+    if (stream) {
+      return streamAgentReply(LOVABLE_API_KEY, response, aiMessages, {
+        context: sessionContext,
+        customerId: sessionCustomerId,
+        store,
+        pendingAction,
+        confirmationToken,
+        usage,
+        onReplyComplete: persistTurn,
+      });
+    }
+
     let data = await response.json();
     let assistantMessage = data.choices[0].message;
+    usage = addUsage(usage, parseUsage(data.usage));
     
     // Handle tool calls in a loop
     let iterations = 0;
-    const maxIterations = 5;
-    const toolResults: Array<{ name: string; result: unknown }> = [];
+    const toolResults: ToolResult[] = [];
 
-    while (assistantMessage.tool_calls && iterations < maxIterations) {
+    while (assistantMessage.tool_calls && iterations < MAX_TOOL_ITERATIONS) {
       iterations++;
       
       // Execute all tool calls
       const toolCallResults = [];
-      for (const toolCall of assistantMessage.tool_calls) {
-        const args = JSON.parse(toolCall.function.arguments);
-        const result = executeToolCall(toolCall.function.name, args);
-        toolResults.push({ name: toolCall.function.name, result });
-        toolCallResults.push({
-          role: "tool",
-          tool_call_id: toolCall.id,
-          content: JSON.stringify(result)
-        });
+      for (const toolCall of assistantMessage.tool_calls as ToolCall[]) {
+        toolCallResults.push(await runToolCall(toolCall, toolResults, sessionCustomerId, store, pendingAction, confirmationToken));
       }
 
       // Add assistant message with tool calls and tool results
@@ -400,19 +618,7 @@ serve(async (req) => {
       ];
 
       // Request next completion
-      response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "google/gemini-3-flash-preview",
-          messages: aiMessages,
-          tools,
-          tool_choice: "auto",
-        }),
-      });
+      response = await requestCompletion(LOVABLE_API_KEY, aiMessages);
 
       if (!response.ok) {
         throw new Error("AI gateway error during tool handling");
@@ -420,39 +626,30 @@ serve(async (req) => {
 
       data = await response.json();
       assistantMessage = data.choices[0].message;
+      usage = addUsage(usage, parseUsage(data.usage));
     }
 
-    // Extract context updates from tool results
-    let updatedContext = { ...context };
-    for (const { name, result } of toolResults) {
-      if (name === "getProductDetails" && (result as { product_id?: string }).product_id) {
-        updatedContext.lastProductId = (result as { product_id: string }).product_id;
-        updatedContext.lastIntent = "product_details";
-      } else if (name === "searchProducts" && Array.isArray(result) && result.length > 0) {
-        updatedContext.lastProductId = result[0].product_id;
-        updatedContext.lastIntent = "product_search";
-      } else if (name === "trackOrder" && (result as { order_id?: string }).order_id) {
-        updatedContext.lastOrderId = (result as { order_id: string }).order_id;
-        updatedContext.lastIntent = "order_tracking";
-      } else if (name === "initiateCancellation") {
-        updatedContext.lastIntent = "cancellation";
-      } else if (name === "initiateReturn") {
-        updatedContext.lastIntent = "return";
-      } else if (name === "getPolicy") {
-        updatedContext.lastIntent = "policy";
-      }
-    }
+    const updatedContext = updateContextFromToolResults(sessionContext, toolResults);
+    await persistTurn(assistantMessage.content ?? "", updatedContext);
 
     return new Response(
       JSON.stringify({
         content: assistantMessage.content,
         context: updatedContext,
-        toolResults
+        toolResults,
+        usage
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     console.error("Customer support error:", error);
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,211 @@
+import products from "./data/products.json" with { type: "json" };
+import faqs from "./data/faqs.json" with { type: "json" };
+import orders from "./data/orders.json" with { type: "json" };
+import policies from "./data/policies.json" with { type: "json" };
+import refunds from "./data/refunds.json" with { type: "json" };
+import offers from "./data/offers.json" with { type: "json" };
+import type {
+  Conversation,
+  NewServiceRequest,
+  Offer,
+  OtpChallenge,
+  Order,
+  Product,
+  ProductFaqs,
+  Refund,
+  ServiceRequest,
+  ServiceRequestType,
+  SupportStore,
+} from "./store.ts";
+import { findConflictingRequest } from "./serviceRequests.ts";
+
+export interface MemoryStoreData {
+  products: Product[];
+  faqs: ProductFaqs[];
+  orders: Order[];
+  policies: Record<string, Record<string, unknown>>;
+  refunds: Refund[];
+  offers: Offer[];
+}
+
+// The JSON the database was seeded from (see supabase/scripts/seed.ts)
+export const bundledData: MemoryStoreData = {
+  products,
+  faqs,
+  orders: orders as Order[],
+  policies,
+  refunds: refunds as Refund[],
+  offers: offers as Offer[],
+};
+
+export type MemoryStore = SupportStore & MemoryStoreData & {
+  serviceRequests: ServiceRequest[];
+  conversations: Map<string, Conversation>;
+  otpChallenges: Map<string, OtpChallenge>;
+};
+
+// In-memory SupportStore with the same rules as the database, for tests
+export function createMemoryStore(data: MemoryStoreData = bundledData): MemoryStore {
+  // Copied so tests can change orders or stock without leaking into each other
+  const state: MemoryStoreData = structuredClone(data);
+  const serviceRequests: ServiceRequest[] = [];
+  const conversations = new Map<string, Conversation>();
+  const otpChallenges = new Map<string, OtpChallenge>();
+  let nextId = 1;
+
+  const listActive = (orderId: string, type?: ServiceRequestType) =>
+    serviceRequests
+      .filter((r) => r.orderId === orderId && r.status !== "rejected" && (!type || r.type === type))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    ...state,
+    serviceRequests,
+    conversations,
+    otpChallenges,
+
+    listProducts({ minPrice, maxPrice }) {
+      const results = state.products
+        .filter((p) => minPrice === undefined || p.price >= minPrice)
+        .filter((p) => maxPrice === undefined || p.price <= maxPrice)
+        .sort((a, b) => a.product_id.localeCompare(b.product_id));
+      return Promise.resolve(results);
+    },
+
+    getProduct(productId) {
+      return Promise.resolve(state.products.find((p) => p.product_id === productId) ?? null);
+    },
+
+    getProductFaqs(productId) {
+      return Promise.resolve(state.faqs.find((f) => f.product_id === productId) ?? null);
+    },
+
+    getOrder(orderId) {
+      return Promise.resolve(state.orders.find((o) => o.order_id === orderId) ?? null);
+    },
+
+    listOrderBaskets() {
+      return Promise.resolve(state.orders.map((order) => order.products.map((item) => item.product_id)));
+    },
+
+    listCustomerOrders(customerId) {
+      return Promise.resolve(state.orders.filter((o) => o.customer_id === customerId));
+    },
+
+    customerExists(customerId) {
+      return Promise.resolve(state.orders.some((o) => o.customer_id === customerId));
+    },
+
+    getPolicy(policyType) {
+      return Promise.resolve(state.policies[policyType] ?? null);
+    },
+
+    findActiveServiceRequest(orderId, type) {
+      return Promise.resolve(listActive(orderId, type)[0] ?? null);
+    },
+
+    listActiveServiceRequests(orderId, type) {
+      return Promise.resolve(listActive(orderId, type));
+    },
+
+    createServiceRequest({ type, orderId, customerId, reason, productIds, quantities }: NewServiceRequest) {
+      // Same rule as the database trigger: no more units of an item than were ordered
+      const lines = state.orders.find((o) => o.order_id === orderId)?.products ?? [];
+      const existing = findConflictingRequest(lines, listActive(orderId, type), { productIds, quantities });
+      if (existing) {
+        return Promise.resolve({ request: existing, created: false });
+      }
+
+      const now = new Date().toISOString();
+      const request: ServiceRequest = {
+        id: `SR${String(nextId++).padStart(4, "0")}`,
+        type,
+        orderId,
+        customerId,
+        status: "requested",
+        reason: reason ?? null,
+        productIds,
+        quantities: quantities ?? {},
+        createdAt: now,
+        updatedAt: now,
+      };
+      serviceRequests.push(request);
+      return Promise.resolve({ request, created: true });
+    },
+
+    listRefunds(orderId) {
+      const results = state.refunds
+        .filter((r) => r.order_id === orderId)
+        .sort((a, b) => Date.parse(b.initiated_at) - Date.parse(a.initiated_at));
+      return Promise.resolve(results);
+    },
+
+    listOffers() {
+      return Promise.resolve(state.offers);
+    },
+
+    createOtpChallenge(challenge) {
+      otpChallenges.set(challenge.id, { ...challenge, attempts: 0, consumedAt: null, createdAt: new Date().toISOString() });
+      return Promise.resolve();
+    },
+
+    countOtpChallengesSince(customerId, since) {
+      const count = [...otpChallenges.values()].filter((c) => c.customerId === customerId && c.createdAt >= since).length;
+      return Promise.resolve(count);
+    },
+
+    recordOtpAttempt(challengeId) {
+      const challenge = otpChallenges.get(challengeId);
+      if (!challenge || challenge.consumedAt) return Promise.resolve(null);
+      challenge.attempts += 1;
+      return Promise.resolve({ ...challenge });
+    },
+
+    consumeOtpChallenge(challengeId) {
+      const challenge = otpChallenges.get(challengeId);
+      if (!challenge || challenge.consumedAt) return Promise.resolve(false);
+      challenge.consumedAt = new Date().toISOString();
+      return Promise.resolve(true);
+    },
+
+    getConversationOwner(sessionId) {
+      return Promise.resolve(conversations.get(sessionId)?.customerId ?? null);
+    },
+
+    saveConversationTurn({ sessionId, customerId, title, context, messages }) {
+      const now = new Date().toISOString();
+      const conversation = conversations.get(sessionId) ?? {
+        sessionId,
+        customerId,
+        title,
+        context,
+        messages: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      conversation.context = context;
+      conversation.updatedAt = now;
+      for (const message of messages) {
+        if (!conversation.messages.some((m) => m.id === message.id)) {
+          conversation.messages.push(message);
+        }
+      }
+      conversations.set(sessionId, conversation);
+      return Promise.resolve();
+    },
+
+    listConversations(customerId, limit) {
+      const summaries = [...conversations.values()]
+        .filter((c) => c.customerId === customerId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, limit)
+        .map(({ sessionId, title, createdAt, updatedAt }) => ({ sessionId, title, createdAt, updatedAt }));
+      return Promise.resolve(summaries);
+    },
+
+    getConversation(sessionId) {
+      const conversation = conversations.get(sessionId);
+      return Promise.resolve(conversation ? structuredClone(conversation) : null);
+    },
+  };
+}
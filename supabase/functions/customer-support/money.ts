@@ -0,0 +1,38 @@
+// Rupee amounts as the agent should say them, so every tool formats money the same way.
+import type { Order, OrderItem } from "./store.ts";
+
+const wholeRupees = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 });
+const rupeesAndPaise = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", minimumFractionDigits: 2 });
+
+// ₹43,395 — Indian digit grouping, with paise only when the amount has them
+export function formatRupees(amount: number): string {
+  return (Number.isInteger(amount) ? wholeRupees : rupeesAndPaise).format(amount);
+}
+
+// What the customer paid for one line of an order, or for `quantity` of its units (the line's
+// discount is shared evenly between them)
+export function lineTotal(item: OrderItem, quantity = item.quantity): number {
+  const total = item.unit_price * item.quantity - item.discount;
+  return quantity === item.quantity ? total : Math.round((total * quantity / item.quantity) * 100) / 100;
+}
+
+export interface PaymentSummary {
+  payment_method: Order["payment_method"];
+  items_total: string;
+  discount: string;
+  shipping: string;
+  total: string;
+}
+
+// The order's amounts, formatted for the model to read out
+export function summarisePayment(order: Order): PaymentSummary {
+  const itemsTotal = order.products.reduce((sum, item) => sum + item.unit_price * item.quantity, 0);
+  const discount = order.products.reduce((sum, item) => sum + item.discount, 0);
+  return {
+    payment_method: order.payment_method,
+    items_total: formatRupees(itemsTotal),
+    discount: formatRupees(discount),
+    shipping: order.shipping_charge === 0 ? "Free" : formatRupees(order.shipping_charge),
+    total: formatRupees(order.total_amount),
+  };
+}
@@ -0,0 +1,114 @@
+// What a product actually costs: the catalogue discount off the list price, then at most one
+// offer (automatic or coupon) on top. Offers never stack, so the agent can quote one number.
+import type { Offer, PaymentMethod, Product } from "./store.ts";
+import { toStoreDate } from "./delivery.ts";
+import { formatRupees } from "./money.ts";
+
+/**
+ * Nearest whole rupee, halves rounding up. Amounts are first rounded to paise so float error
+ * such as 1234.4999999 for a true 1234.50 does not round the wrong way.
+ */
+export function roundRupees(amount: number): number {
+  return Math.round(Math.round(amount * 100) / 100);
+}
+
+/** The price after the catalogue discount */
+export function finalPrice(product: Product): number {
+  return roundRupees(product.price * (1 - (product.discount_percentage ?? 0) / 100));
+}
+
+export interface ProductPricing {
+  list_price: number;
+  discount_percentage: number;
+  final_price: number;
+  savings: number;
+  list_price_formatted: string;
+  final_price_formatted: string;
+  savings_formatted: string;
+}
+
+export function priceProduct(product: Product): ProductPricing {
+  const price = finalPrice(product);
+  const savings = product.price - price;
+  return {
+    list_price: product.price,
+    discount_percentage: product.discount_percentage ?? 0,
+    final_price: price,
+    savings,
+    list_price_formatted: formatRupees(product.price),
+    final_price_formatted: formatRupees(price),
+    savings_formatted: formatRupees(savings),
+  };
+}
+
+export function isOfferActive(offer: Offer, now = new Date()): boolean {
+  const today = toStoreDate(now);
+  return offer.valid_from <= today && today <= offer.valid_until;
+}
+
+export interface Purchase {
+  product: Product;
+  quantity: number;
+  // Offers that need a payment method only apply once it is known
+  paymentMethod?: PaymentMethod;
+}
+
+export interface OfferQuote {
+  offer_id: string;
+  code: string | null;
+  title: string;
+  applicable: boolean;
+  /** Why the offer does not apply; null when it does */
+  reason: string | null;
+  discount: number;
+  discount_formatted: string;
+  // For the whole quantity, after the catalogue discount and this offer
+  total: number;
+  total_formatted: string;
+}
+
+function offerDiscount(offer: Offer, amount: number): number {
+  if (offer.discount_type === "flat") {
+    return Math.min(offer.value, amount);
+  }
+  const discount = roundRupees(amount * offer.value / 100);
+  return offer.max_discount === null ? discount : Math.min(discount, offer.max_discount);
+}
+
+function ineligibility(offer: Offer, { product, paymentMethod }: Purchase, amount: number): string | null {
+  if (offer.categories.length > 0 && !offer.categories.includes(product.category)) {
+    return `Only for ${offer.categories.join(", ")}`;
+  }
+  if (amount < offer.min_order_value) {
+    return `Needs an order of at least ${formatRupees(offer.min_order_value)}`;
+  }
+  if (offer.payment_methods.length > 0 && (!paymentMethod || !offer.payment_methods.includes(paymentMethod))) {
+    return `Only when paying by ${offer.payment_methods.join(" or ")}`;
+  }
+  return null;
+}
+
+/** What the offer takes off the purchase, or why it cannot be used. Does not check dates. */
+export function quoteOffer(offer: Offer, purchase: Purchase): OfferQuote {
+  const amount = finalPrice(purchase.product) * purchase.quantity;
+  const reason = ineligibility(offer, purchase, amount);
+  const discount = reason ? 0 : offerDiscount(offer, amount);
+  return {
+    offer_id: offer.offer_id,
+    code: offer.code,
+    title: offer.title,
+    applicable: reason === null,
+    reason,
+    discount,
+    discount_formatted: formatRupees(discount),
+    total: amount - discount,
+    total_formatted: formatRupees(amount - discount),
+  };
+}
+
+/** The applicable quote that saves the most, or null when none apply */
+export function bestOffer(quotes: OfferQuote[]): OfferQuote | null {
+  return quotes
+    .filter((quote) => quote.applicable)
+    .reduce<OfferQuote | null>((best, quote) => (!best || quote.discount > best.discount ? quote : best), null);
+}
@@ -0,0 +1,107 @@
+// Product suggestions from what the customer has bought before and what other customers bought
+// alongside it, falling back to well-rated products for customers with no history.
+import type { Order, Product } from "./store.ts";
+
+// A product bought alongside one of the customer's counts for more than a shared category
+const CO_PURCHASE_WEIGHT = 2;
+const CATEGORY_WEIGHT = 1.5;
+const RATING_WEIGHT = 1;
+const POPULARITY_WEIGHT = 0.25;
+
+export interface Recommendation {
+  product: Product;
+  score: number;
+  // One line the agent can say, e.g. "Often bought with Luma Monitor Pro"
+  reason: string;
+}
+
+interface CoPurchase {
+  // Times it was bought alongside any of the customer's products
+  count: number;
+  // The customer's product it was most often bought with
+  boughtWith: string;
+}
+
+function countCoPurchases(purchasedIds: Set<string>, baskets: string[][]): Map<string, Map<string, number>> {
+  const pairs = new Map<string, Map<string, number>>();
+  for (const basket of baskets) {
+    const owned = basket.filter((id) => purchasedIds.has(id));
+    if (owned.length === 0) continue;
+    for (const productId of basket) {
+      if (purchasedIds.has(productId)) continue;
+      const counts = pairs.get(productId) ?? new Map<string, number>();
+      for (const ownedId of owned) counts.set(ownedId, (counts.get(ownedId) ?? 0) + 1);
+      pairs.set(productId, counts);
+    }
+  }
+  return pairs;
+}
+
+function strongestCoPurchase(counts: Map<string, number> | undefined): CoPurchase | null {
+  if (!counts) return null;
+  let best: CoPurchase | null = null;
+  let total = 0;
+  for (const [ownedId, count] of counts) {
+    total += count;
+    if (!best || count > best.count) best = { count, boughtWith: ownedId };
+  }
+  return best && { ...best, count: total };
+}
+
+/**
+ * Ranks in-stock products the customer has not bought yet. `baskets` are the product IDs of
+ * every order in the store, for co-purchase patterns.
+ */
+export function recommendProducts(
+  customerOrders: Order[],
+  baskets: string[][],
+  products: Product[],
+  limit: number,
+): Recommendation[] {
+  const purchasedItems = customerOrders.flatMap((order) => order.products);
+  const purchasedIds = new Set(purchasedItems.map((item) => item.product_id));
+  // The catalogue lists some products twice under different IDs
+  const purchasedNames = new Set(purchasedItems.map((item) => item.product_name));
+  const namesById = new Map(products.map((product) => [product.product_id, product.product_name]));
+
+  // Cancelled orders still show what the customer is interested in, so they count too
+  const categoryCounts = new Map<string, number>();
+  for (const item of purchasedItems) {
+    const category = products.find((product) => product.product_id === item.product_id)?.category;
+    if (category) categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1);
+  }
+  const coPurchases = countCoPurchases(purchasedIds, baskets);
+
+  const ranked = products
+    .filter((product) => product.stock_available > 0 && !purchasedIds.has(product.product_id))
+    .filter((product) => !purchasedNames.has(product.product_name))
+    .map((product): Recommendation => {
+      const coPurchase = strongestCoPurchase(coPurchases.get(product.product_id));
+      const categoryShare = purchasedItems.length > 0
+        ? (categoryCounts.get(product.category) ?? 0) / purchasedItems.length
+        : 0;
+      const score = CO_PURCHASE_WEIGHT * (coPurchase?.count ?? 0)
+        + CATEGORY_WEIGHT * categoryShare
+        + RATING_WEIGHT * (product.rating / 5)
+        + POPULARITY_WEIGHT * Math.log10(product.review_count + 1);
+
+      let reason = `Rated ${product.rating} by ${product.review_count.toLocaleString("en-IN")} customers`;
+      if (coPurchase) {
+        reason = `Often bought with ${namesById.get(coPurchase.boughtWith) ?? coPurchase.boughtWith}`;
+      } else if (categoryShare > 0) {
+        reason = `Because you shop for ${product.category}`;
+      }
+      return { product, score: Math.round(score * 100) / 100, reason };
+    })
+    .sort((a, b) => b.score - a.score || a.product.product_id.localeCompare(b.product.product_id));
+
+  // One listing per product name, the best-scoring one
+  const seenNames = new Set<string>();
+  return ranked
+    .filter(({ product }) => {
+      if (seenNames.has(product.product_name)) return false;
+      seenNames.add(product.product_name);
+      return true;
+    })
+    .slice(0, limit);
+}
@@ -0,0 +1,66 @@
+// Refund progress: when the money should reach the customer under the refund policy's
+// timelines, and whether it is late.
+import type { Order, OrderItem, Refund, RefundMethod, ServiceRequestType } from "./store.ts";
+import { addDays, toStoreDate } from "./delivery.ts";
+import { formatRupees, lineTotal } from "./money.ts";
+
+// Upper end of each method's timeline in the refund policy, in business days after initiation
+const REFUND_BUSINESS_DAYS: Record<RefundMethod, number> = {
+  "UPI": 5,
+  "Net Banking": 5,
+  "Credit Card": 10,
+  "Debit Card": 10,
+};
+
+// Skips Saturdays and Sundays; public holidays are not modelled
+export function addBusinessDays(isoDate: string, days: number): string {
+  let date = isoDate;
+  let remaining = days;
+  while (remaining > 0) {
+    date = addDays(date, 1);
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining--;
+  }
+  return date;
+}
+
+export interface RefundProgress extends Refund {
+  amount_formatted: string;
+  // YYYY-MM-DD the money should arrive by; null once the refund completed or failed
+  expected_by: string | null;
+  overdue: boolean;
+}
+
+export function describeRefund(refund: Refund, now = new Date()): RefundProgress {
+  const settled = refund.status === "completed" || refund.status === "failed";
+  const expectedBy = settled
+    ? null
+    : addBusinessDays(toStoreDate(refund.initiated_at), REFUND_BUSINESS_DAYS[refund.method] ?? 10);
+  return {
+    ...refund,
+    amount_formatted: formatRupees(refund.amount),
+    expected_by: expectedBy,
+    overdue: expectedBy !== null && toStoreDate(now) > expectedBy,
+  };
+}
+
+/**
+ * What a cancellation or return of these items would refund. `quantities` gives the units of
+ * any item requested only in part, which is refunded pro rata. Shipping is only refunded when
+ * the whole order is cancelled, and a cancelled cash-on-delivery order was never paid for.
+ */
+export function estimateRefund(
+  order: Order,
+  type: ServiceRequestType,
+  productIds: string[],
+  quantities: Record<string, number> = {},
+): number {
+  if (type === "cancellation" && order.payment_method === "Cash on Delivery") {
+    return 0;
+  }
+  const items = order.products.filter((item) => productIds.includes(item.product_id));
+  const unitsOf = (item: OrderItem) => Math.min(quantities[item.product_id] ?? item.quantity, item.quantity);
+  const itemsTotal = items.reduce((sum, item) => sum + lineTotal(item, unitsOf(item)), 0);
+  const wholeOrder = items.length === order.products.length && items.every((item) => unitsOf(item) === item.quantity);
+  return itemsTotal + (type === "cancellation" && wholeOrder ? order.shipping_charge : 0);
+}
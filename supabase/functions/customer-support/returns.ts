@@ -0,0 +1,82 @@
+// Return eligibility: the return policy's window and non-returnable categories, plus each
+// product's own return_eligible flag.
+import type { Order, Product } from "./store.ts";
+import { addDays, findShipmentEvent, toStoreDate } from "./delivery.ts";
+
+export interface ReturnRules {
+  window_days: number;
+  non_returnable_categories: string[];
+}
+
+// Applied when the stored return policy does not spell out its rules
+const DEFAULT_RETURN_RULES: ReturnRules = { window_days: 7, non_returnable_categories: [] };
+
+export function getReturnRules(policy: Record<string, unknown> | null): ReturnRules {
+  const windowDays = policy?.window_days;
+  const categories = policy?.non_returnable_categories;
+  return {
+    window_days: typeof windowDays === "number" ? windowDays : DEFAULT_RETURN_RULES.window_days,
+    non_returnable_categories: Array.isArray(categories)
+      ? categories.filter((category): category is string => typeof category === "string")
+      : DEFAULT_RETURN_RULES.non_returnable_categories,
+  };
+}
+
+export interface ReturnItemCheck {
+  product_id: string;
+  product_name: string | null;
+  returnable: boolean;
+  /** Why the item cannot be returned; null when it can */
+  reason: string | null;
+}
+
+export interface ReturnEligibility {
+  // YYYY-MM-DD in the store's calendar; null when the order has no delivery scan
+  delivered_on: string | null;
+  return_by: string | null;
+  items: ReturnItemCheck[];
+}
+
+/**
+ * Checks the chosen items of a delivered order, or all of them when `productIds` is omitted.
+ * `products` are the catalogue entries for the order's items.
+ */
+export function checkReturnEligibility(
+  order: Order,
+  products: Product[],
+  rules: ReturnRules,
+  productIds?: string[],
+  now = new Date(),
+): ReturnEligibility {
+  const delivered = findShipmentEvent(order, "Delivered");
+  const deliveredOn = delivered ? toStoreDate(delivered.occurred_at) : null;
+  const returnBy = deliveredOn ? addDays(deliveredOn, rules.window_days) : null;
+
+  let windowReason: string | null = null;
+  if (!returnBy) {
+    windowReason = "The delivery date of this order could not be confirmed";
+  } else if (toStoreDate(now) > returnBy) {
+    windowReason = `The ${rules.window_days}-day return window ended on ${returnBy}`;
+  }
+
+  const nonReturnableCategories = rules.non_returnable_categories.map((category) => category.toLowerCase());
+  const requestedIds = [...new Set(productIds ?? order.products.map((item) => item.product_id))];
+
+  const items = requestedIds.map((productId): ReturnItemCheck => {
+    const item = order.products.find((p) => p.product_id === productId);
+    if (!item) {
+      return { product_id: productId, product_name: null, returnable: false, reason: `Not part of order ${order.order_id}` };
+    }
+
+    const product = products.find((p) => p.product_id === productId);
+    let reason = windowReason;
+    if (product && !product.return_eligible) {
+      reason = "This product is marked as non-returnable";
+    } else if (product && nonReturnableCategories.includes(product.category.toLowerCase())) {
+      reason = `${product.category} items cannot be returned`;
+    }
+    return { product_id: productId, product_name: item.product_name, returnable: reason === null, reason };
+  });
+
+  return { delivered_on: deliveredOn, return_by: returnBy, items };
+}
@@ -0,0 +1,348 @@
+// Product search for spoken queries. Transcripts misspell brand names ("loomah" for Luma) and
+// customers describe needs rather than products ("something for running"), so the query is
+// matched by spelling, sound and synonyms, and products are ranked by a TF-IDF style score over
+// their name and description.
+import type { PriceRange, Product } from "./store.ts";
+import { finalPrice } from "./pricing.ts";
+
+// Filler that carries no meaning for the catalogue
+const STOPWORDS = new Set([
+  "a", "an", "and", "any", "are", "best", "buy", "can", "do", "for", "from", "get", "good", "have",
+  "i", "in", "is", "it", "like", "looking", "me", "my", "need", "of", "on", "one", "or", "please",
+  "show", "some", "something", "that", "the", "thing", "to", "under", "want", "what", "which",
+  "with", "you",
+]);
+
+// Words customers use for each category, matched against the catalogue's category names
+const CATEGORY_TERMS: Record<string, string[]> = {
+  "Electronics": ["electronic", "electronics", "gadget", "tech", "device", "music", "audio", "computer"],
+  "Clothing": ["clothes", "clothing", "apparel", "wear", "fashion", "outfit", "garment", "dress"],
+  "Home & Kitchen": ["home", "kitchen", "household", "cooking", "cook", "appliance", "house"],
+  "Beauty & Personal Care": ["beauty", "skincare", "skin", "hair", "cosmetic", "makeup", "grooming", "personal", "care"],
+  "Sports & Fitness": ["sport", "sports", "fitness", "gym", "workout", "exercise", "running", "training", "outdoor"],
+};
+
+// Extra terms searched alongside a query word, at a lower weight than the word itself
+const SYNONYMS: Record<string, string[]> = {
+  running: ["shoes", "treadmill", "tracker"],
+  run: ["shoes", "treadmill", "tracker"],
+  jogging: ["running", "shoes", "treadmill"],
+  gym: ["dumbbells", "bands", "ball", "mat"],
+  workout: ["dumbbells", "bands", "ball", "mat", "treadmill"],
+  yoga: ["mat", "ball"],
+  cycling: ["bike"],
+  bicycle: ["bike"],
+  cycle: ["bike"],
+  sneakers: ["shoes"],
+  trainers: ["shoes"],
+  bag: ["backpack"],
+  headphones: ["headset", "earbuds"],
+  earphones: ["earbuds", "headset"],
+  music: ["speaker", "soundbar", "earbuds", "headset"],
+  screen: ["monitor", "tablet"],
+  display: ["monitor"],
+  computer: ["laptop", "monitor"],
+  notebook: ["laptop"],
+  phone: ["earbuds", "smartwatch"],
+  watch: ["smartwatch", "tracker"],
+  photo: ["camera"],
+  tv: ["soundbar", "monitor"],
+  jacket: ["coat", "hoodie"],
+  pants: ["jeans"],
+  trousers: ["jeans"],
+  sweatshirt: ["hoodie", "sweater"],
+  winter: ["coat", "sweater", "hoodie", "jacket"],
+  cold: ["coat", "sweater", "hoodie"],
+  tshirt: ["t-shirt", "shirt"],
+  tee: ["t-shirt"],
+  cooking: ["cooker", "cookware", "knife", "blender"],
+  cook: ["cooker", "cookware", "knife", "blender"],
+  juice: ["blender"],
+  smoothie: ["blender"],
+  water: ["purifier", "faucet"],
+  tap: ["faucet"],
+  sleep: ["mattress"],
+  bed: ["mattress"],
+  light: ["lamp"],
+  cleaning: ["vacuum"],
+  fragrance: ["perfume", "deodorant"],
+  scent: ["perfume", "deodorant"],
+  lips: ["balm"],
+  face: ["wash", "foundation"],
+  hair: ["shampoo"],
+  makeup: ["foundation", "balm"],
+  moisturiser: ["lotion"],
+  moisturizer: ["lotion"],
+  cream: ["lotion"],
+  bath: ["soap", "lotion"],
+};
+
+// How much each kind of match counts; a misheard name should still beat a description mention
+const FIELD_WEIGHTS = { name: 3, description: 1 };
+const MATCH_QUALITY = { exact: 1, prefix: 0.8, phonetic: 0.7, typo: 0.6 };
+const SYNONYM_WEIGHT = 0.5;
+const CATEGORY_WEIGHT = 1;
+
+export interface ProductQuery {
+  // Free text from the customer: a product name, possibly misheard, or a need
+  text?: string;
+  category?: string;
+}
+
+export interface ScoredProduct {
+  product: Product;
+  // 0 when the query has no text to rank by
+  score: number;
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+// Letters in any script, so a Hindi or Tamil query is searched rather than dropped
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, " ")
+    .split(/[\s-]+/)
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1", f: "1", p: "1", v: "1",
+  c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+  d: "3", t: "3",
+  l: "4",
+  m: "5", n: "5",
+  r: "6",
+};
+
+/** American Soundex: "loomah" and "luma" both give L500 */
+export function soundex(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!letters) return "";
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? "";
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? "";
+    if (digit && digit !== previous) code += digit;
+    // h and w do not separate letters with the same code; vowels do
+    if (letter !== "h" && letter !== "w") previous = digit;
+    if (code.length === 4) break;
+  }
+  return code.padEnd(4, "0");
+}
+
+/** Optimal string alignment distance, so a swapped pair of letters counts as one typo */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Short words tolerate no typos, or "mat" would match "max"
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  return term.length >= 4 ? 1 : 0;
+}
+
+// How well one query term matches one word of a product, from 0 to 1
+function matchQuality(term: string, word: string): number {
+  if (term === word) return MATCH_QUALITY.exact;
+  if (term.length >= 3 && word.startsWith(term)) return MATCH_QUALITY.prefix;
+  // Soundex only codes Latin letters; two words in another script would both give ""
+  const code = term.length >= 4 && word.length >= 3 ? soundex(term) : "";
+  if (code && code === soundex(word)) return MATCH_QUALITY.phonetic;
+  if (editDistance(term, word) <= allowedTypos(term)) return MATCH_QUALITY.typo;
+  return 0;
+}
+
+/** Catalogue categories a phrase refers to, by name or by the words customers use for them */
+export function matchCategories(phrase: string, categories: string[]): string[] {
+  const lowered = phrase.toLowerCase().trim();
+  // Every category name contains "", so a blank phrase would otherwise refer to all of them
+  if (!lowered) return [];
+  const terms = tokenize(phrase);
+  return categories.filter((category) => {
+    if (category.toLowerCase().includes(lowered)) return true;
+    const categoryTerms = [...tokenize(category), ...(CATEGORY_TERMS[category] ?? []).map(stem)];
+    return terms.some((term) => categoryTerms.some((word) => matchQuality(term, word) >= MATCH_QUALITY.prefix));
+  });
+}
+
+interface IndexedProduct {
+  product: Product;
+  name: string[];
+  description: string[];
+}
+
+// Rare words say more about a product than "pro" or "comfort"
+function inverseDocumentFrequency(indexed: IndexedProduct[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const { name, description } of indexed) {
+    for (const word of new Set([...name, ...description])) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  const idf = new Map<string, number>();
+  for (const [word, count] of counts) {
+    idf.set(word, Math.log(1 + indexed.length / count));
+  }
+  return idf;
+}
+
+function fieldScore(term: string, words: string[], idf: Map<string, number>): number {
+  let best = 0;
+  for (const word of words) {
+    const quality = matchQuality(term, word);
+    if (quality > 0) best = Math.max(best, quality * (idf.get(word) ?? 0));
+  }
+  return best;
+}
+
+/**
+ * Ranks `products` against the query, best first. With a category, only products in the
+ * categories it refers to are considered; with text, only products that match some of it.
+ */
+export function rankProducts(products: Product[], query: ProductQuery): ScoredProduct[] {
+  const categories = [...new Set(products.map((p) => p.category))];
+  // A blank category is no filter at all
+  const category = query.category?.trim();
+  const candidates = category
+    ? products.filter((p) => matchCategories(category, categories).includes(p.category))
+    : products;
+
+  const terms = [...new Set(tokenize(query.text ?? ""))];
+  if (terms.length === 0) {
+    return candidates
+      .map((product) => ({ product, score: 0 }))
+      .sort((a, b) => a.product.product_id.localeCompare(b.product.product_id));
+  }
+
+  const weightedTerms = new Map<string, number>(terms.map((term) => [term, 1]));
+  for (const term of terms) {
+    for (const synonym of SYNONYMS[term] ?? []) {
+      const word = stem(synonym);
+      if (!weightedTerms.has(word)) weightedTerms.set(word, SYNONYM_WEIGHT);
+    }
+  }
+  // Categories the text itself points at, e.g. "gym" -> Sports & Fitness
+  const impliedCategories = new Set(terms.flatMap((term) => matchCategories(term, categories)));
+
+  const indexed = candidates.map((product): IndexedProduct => ({
+    product,
+    name: tokenize(product.product_name),
+    description: tokenize(product.description),
+  }));
+  const idf = inverseDocumentFrequency(indexed);
+
+  return indexed
+    .map(({ product, name, description }) => {
+      let score = 0;
+      for (const [term, weight] of weightedTerms) {
+        score += weight * Math.max(
+          FIELD_WEIGHTS.name * fieldScore(term, name, idf),
+          FIELD_WEIGHTS.description * fieldScore(term, description, idf),
+        );
+      }
+      if (impliedCategories.has(product.category)) score += CATEGORY_WEIGHT;
+      return { product, score: Math.round(score * 100) / 100 };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.product.product_id.localeCompare(b.product.product_id));
+}
+
+export const SORT_OPTIONS = [
+  "relevance",
+  "price_low_to_high",
+  "price_high_to_low",
+  "rating",
+  "review_count",
+  "discount",
+  "delivery_time",
+] as const;
+
+export type SortOption = typeof SORT_OPTIONS[number];
+
+// Ties keep the relevance order, so "cheapest running shoes" still puts shoes first among equals
+const SORT_COMPARATORS: Record<SortOption, (a: Product, b: Product) => number> = {
+  relevance: () => 0,
+  // By what the customer pays, not the list price
+  price_low_to_high: (a, b) => finalPrice(a) - finalPrice(b),
+  price_high_to_low: (a, b) => finalPrice(b) - finalPrice(a),
+  rating: (a, b) => b.rating - a.rating,
+  review_count: (a, b) => b.review_count - a.review_count,
+  discount: (a, b) => (b.discount_percentage ?? 0) - (a.discount_percentage ?? 0),
+  delivery_time: (a, b) => a.delivery_time_days - b.delivery_time_days,
+};
+
+export interface ProductFilters {
+  inStockOnly?: boolean;
+  minRating?: number;
+  returnEligibleOnly?: boolean;
+  maxDeliveryDays?: number;
+}
+
+/** Everything a search was asked for; a cursor carries it so the next page needs nothing else */
+export interface ProductSearch extends ProductQuery, PriceRange, ProductFilters {
+  sortBy?: SortOption;
+}
+
+// Against the price the customer pays, not the list price
+function inPriceRange(product: Product, { minPrice, maxPrice }: PriceRange): boolean {
+  const price = finalPrice(product);
+  return (minPrice === undefined || price >= minPrice) && (maxPrice === undefined || price <= maxPrice);
+}
+
+export function matchesFilters(product: Product, filters: ProductFilters): boolean {
+  return (!filters.inStockOnly || product.stock_available > 0)
+    && (filters.minRating === undefined || product.rating >= filters.minRating)
+    && (!filters.returnEligibleOnly || product.return_eligible)
+    && (filters.maxDeliveryDays === undefined || product.delivery_time_days <= filters.maxDeliveryDays);
+}
+
+/** Ranked, filtered and sorted matches for a search */
+export function searchCatalogue(products: Product[], search: ProductSearch): ScoredProduct[] {
+  const compare = SORT_COMPARATORS[search.sortBy ?? "relevance"];
+  // Array.prototype.sort is stable, so equal products stay in relevance order
+  return rankProducts(products, search)
+    .filter(({ product }) => inPriceRange(product, search) && matchesFilters(product, search))
+    .sort((a, b) => compare(a.product, b.product));
+}
+
+interface SearchCursor {
+  search: ProductSearch;
+  offset: number;
+}
+
+// Opaque to the model; base64 of UTF-8 JSON so queries in any language survive the round trip
+export function encodeCursor(search: ProductSearch, offset: number): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ search, offset } satisfies SearchCursor));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function decodeCursor(cursor: string): SearchCursor | null {
+  try {
+    const bytes = Uint8Array.from(atob(cursor), (char) => char.charCodeAt(0));
+    const decoded = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof decoded?.offset !== "number" || typeof decoded.search !== "object" || decoded.search === null) {
+      return null;
+    }
+    return decoded as SearchCursor;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,45 @@
+// Which units of an order's items live cancellation or return requests already hold, so that
+// cancelling 1 of 2 units leaves the other unit free for a later request of the same type.
+import type { NewServiceRequest, OrderItem, ServiceRequest } from "./store.ts";
+
+type OrderLine = Pick<OrderItem, "product_id" | "quantity">;
+
+/** Units of the order line the request covers; an empty item list covers the whole order */
+export function requestedUnits(request: Pick<ServiceRequest, "productIds" | "quantities">, line: OrderLine): number {
+  if (request.productIds.length > 0 && !request.productIds.includes(line.product_id)) return 0;
+  return Math.min(request.quantities[line.product_id] ?? line.quantity, line.quantity);
+}
+
+export interface RequestedLine {
+  /** Units not yet in any of the requests */
+  remaining: number;
+  /** The newest request holding units of the line */
+  request: ServiceRequest;
+}
+
+/** The order lines `requests` (newest first) hold units of, by product ID */
+export function findRequestedLines(lines: OrderLine[], requests: ServiceRequest[]): Map<string, RequestedLine> {
+  const requested = new Map<string, RequestedLine>();
+  for (const line of lines) {
+    const holding = requests.filter((request) => requestedUnits(request, line) > 0);
+    if (holding.length === 0) continue;
+    const held = holding.reduce((sum, request) => sum + requestedUnits(request, line), 0);
+    requested.set(line.product_id, { remaining: Math.max(line.quantity - held, 0), request: holding[0] });
+  }
+  return requested;
+}
+
+/** A live request holding units the new one asks for beyond what is left, or null when it fits */
+export function findConflictingRequest(
+  lines: OrderLine[],
+  requests: ServiceRequest[],
+  request: Pick<NewServiceRequest, "productIds" | "quantities">,
+): ServiceRequest | null {
+  const requested = findRequestedLines(lines, requests);
+  for (const line of lines) {
+    const wanted = requestedUnits({ productIds: request.productIds, quantities: request.quantities ?? {} }, line);
+    const held = requested.get(line.product_id);
+    if (wanted > 0 && held && wanted > held.remaining) return held.request;
+  }
+  return null;
+}
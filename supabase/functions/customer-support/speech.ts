@@ -0,0 +1,129 @@
+// Speech services backing the client's server-side voice providers
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function audioFileName(mimeType: string) {
+  const extension = mimeType.split("/")[1]?.split(";")[0] || "webm";
+  return `speech.${extension}`;
+}
+
+/**
+ * Transcribes recorded audio through an OpenAI-compatible `/audio/transcriptions` endpoint.
+ * Configure with STT_API_URL (required), STT_API_KEY and STT_MODEL. For local development,
+ * set STT_MOCK_TRANSCRIPT to return a fixed transcript without calling any service.
+ */
+export async function transcribeAudio(audioBase64: string, mimeType: string, language?: string) {
+  const mockTranscript = Deno.env.get("STT_MOCK_TRANSCRIPT");
+  if (mockTranscript !== undefined) {
+    return { text: mockTranscript };
+  }
+
+  const sttUrl = Deno.env.get("STT_API_URL");
+  if (!sttUrl) {
+    throw new Error("STT_API_URL is not configured");
+  }
+
+  const form = new FormData();
+  form.append("file", new Blob([decodeBase64(audioBase64)], { type: mimeType }), audioFileName(mimeType));
+  form.append("model", Deno.env.get("STT_MODEL") ?? "whisper-1");
+  if (language) {
+    // Transcription APIs expect ISO-639-1 codes, e.g. "en" for "en-US"
+    form.append("language", language.split("-")[0]);
+  }
+
+  const sttApiKey = Deno.env.get("STT_API_KEY");
+  const response = await fetch(sttUrl, {
+    method: "POST",
+    headers: sttApiKey ? { Authorization: `Bearer ${sttApiKey}` } : {},
+    body: form,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("STT service error:", response.status, errorText);
+    throw new Error("Speech transcription failed");
+  }
+
+  const data = await response.json();
+  return { text: (data.text ?? "").trim() };
+}
+
+// Silent 16-bit mono WAV roughly as long as the text would take to say, for local testing
+function silentWav(text: string): Uint8Array {
+  const sampleRate = 8000;
+  const seconds = Math.max(0.5, text.split(/\s+/).length / 2.5);
+  const dataSize = Math.round(sampleRate * seconds) * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Renders speech through an OpenAI-compatible `/audio/speech` endpoint so every device
+ * hears the same brand voice. Configure with TTS_API_URL (required), TTS_API_KEY,
+ * TTS_MODEL and TTS_VOICE; a per-language voice such as TTS_VOICE_HI_IN overrides
+ * TTS_VOICE. Set TTS_MOCK=true locally to get silent audio instead.
+ */
+export async function synthesizeSpeech(text: string, language?: string) {
+  if (Deno.env.get("TTS_MOCK") === "true") {
+    return { audio: silentWav(text), contentType: "audio/wav" };
+  }
+
+  const ttsUrl = Deno.env.get("TTS_API_URL");
+  if (!ttsUrl) {
+    throw new Error("TTS_API_URL is not configured");
+  }
+
+  const ttsApiKey = Deno.env.get("TTS_API_KEY");
+  const response = await fetch(ttsUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(ttsApiKey ? { Authorization: `Bearer ${ttsApiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: Deno.env.get("TTS_MODEL") ?? "tts-1",
+      voice: (language && Deno.env.get(`TTS_VOICE_${language.replace("-", "_").toUpperCase()}`))
+        ?? Deno.env.get("TTS_VOICE")
+        ?? "onyx",
+      input: text,
+      response_format: "mp3",
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("TTS service error:", response.status, errorText);
+    throw new Error("Speech synthesis failed");
+  }
+
+  return {
+    audio: new Uint8Array(await response.arrayBuffer()),
+    contentType: response.headers.get("Content-Type") ?? "audio/mpeg",
+  };
+}
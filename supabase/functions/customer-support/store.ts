@@ -0,0 +1,235 @@
+// Persistence used by the agent tools. The edge function runs against Supabase
+// (supabaseStore.ts); tests use the in-memory implementation (memoryStore.ts).
+
+export interface Product {
+  product_id: string;
+  product_name: string;
+  category: string;
+  price: number;
+  stock_available: number;
+  rating: number;
+  review_count: number;
+  description: string;
+  discount_percentage?: number;
+  return_eligible: boolean;
+  delivery_time_days: number;
+}
+
+export interface ProductFaqs {
+  product_id: string;
+  product_name: string;
+  faqs: { question: string; answer: string }[];
+}
+
+export type OrderStatus = "Placed" | "Shipped" | "Out for Delivery" | "Delivered" | "Cancelled";
+
+export type ShipmentEventStatus = "Shipped" | "In Transit" | "Out for Delivery" | "Delivered";
+
+export interface ShipmentEvent {
+  status: ShipmentEventStatus;
+  location: string;
+  description: string;
+  occurred_at: string;
+}
+
+export type PaymentMethod = "UPI" | "Net Banking" | "Credit Card" | "Debit Card" | "Cash on Delivery";
+
+export interface OrderItem {
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  /** Per unit, at the price the customer paid when ordering (before discount) */
+  unit_price: number;
+  /** Rupees taken off the whole line */
+  discount: number;
+}
+
+export interface Order {
+  order_id: string;
+  customer_id: string;
+  products: OrderItem[];
+  order_status: OrderStatus;
+  order_date: string;
+  /** Null for orders recorded before payments were */
+  payment_method: PaymentMethod | null;
+  shipping_charge: number;
+  /** What the customer paid: discounted items plus shipping */
+  total_amount: number;
+  carrier: string | null;
+  tracking_number: string | null;
+  /** Oldest first; empty until the order ships */
+  shipment_events: ShipmentEvent[];
+}
+
+export type PolicyType = "return" | "refund" | "cancellation" | "delivery";
+
+export interface PriceRange {
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export type ServiceRequestType = "cancellation" | "return";
+
+// Mirrors the service_request_status enum in the database
+export type ServiceRequestStatus = "requested" | "approved" | "pickup_scheduled" | "refunded" | "rejected";
+
+export interface ServiceRequest {
+  id: string;
+  type: ServiceRequestType;
+  orderId: string;
+  customerId: string;
+  status: ServiceRequestStatus;
+  reason: string | null;
+  /** Order items the request covers; empty (requests recorded before items were) means the whole order */
+  productIds: string[];
+  /** Units of the items requested only in part, by product ID; other items cover all units ordered */
+  quantities: Record<string, number>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewServiceRequest {
+  type: ServiceRequestType;
+  orderId: string;
+  customerId: string;
+  reason?: string;
+  productIds: string[];
+  quantities?: Record<string, number>;
+}
+
+// Mirrors the refund_status enum in the database
+export type RefundStatus = "initiated" | "processing" | "completed" | "failed";
+
+// The original payment method the money goes back to; nothing is refunded for unpaid cash on delivery
+export type RefundMethod = Exclude<PaymentMethod, "Cash on Delivery">;
+
+export interface Refund {
+  refund_id: string;
+  order_id: string;
+  request_type: ServiceRequestType;
+  /** The cancellation or return request it settles; null for refunds issued before requests were recorded */
+  request_id: string | null;
+  amount: number;
+  method: RefundMethod;
+  status: RefundStatus;
+  initiated_at: string;
+  /** When the refund completed or failed */
+  processed_at: string | null;
+}
+
+export type OfferDiscountType = "percentage" | "flat";
+
+export interface Offer {
+  offer_id: string;
+  /** Coupon the customer enters at checkout; null for offers applied automatically */
+  code: string | null;
+  title: string;
+  description: string;
+  discount_type: OfferDiscountType;
+  /** Percent off, or rupees off for flat offers */
+  value: number;
+  /** Cap on a percentage offer's discount, in rupees */
+  max_discount: number | null;
+  min_order_value: number;
+  /** Categories it applies to; empty for every category */
+  categories: string[];
+  /** Payment methods it requires; empty for any */
+  payment_methods: PaymentMethod[];
+  /** First and last day, YYYY-MM-DD in the store's calendar */
+  valid_from: string;
+  valid_until: string;
+}
+
+// A passcode sent to a customer, kept server-side so guesses can be counted
+export interface OtpChallenge {
+  id: string;
+  customerId: string;
+  /** Keyed hash of the code; the code itself is never stored */
+  codeHash: string;
+  attempts: number;
+  expiresAt: string;
+  /** Set once the code has been used to sign in */
+  consumedAt: string | null;
+  createdAt: string;
+}
+
+export type NewOtpChallenge = Pick<OtpChallenge, "id" | "customerId" | "codeHash" | "expiresAt">;
+
+export interface StoredMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+export interface ConversationSummary {
+  sessionId: string;
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Conversation extends ConversationSummary {
+  customerId: string;
+  context: Record<string, unknown>;
+  messages: StoredMessage[];
+}
+
+export interface ConversationTurn {
+  sessionId: string;
+  customerId: string;
+  /** Only used when the turn creates the conversation */
+  title: string;
+  context: Record<string, unknown>;
+  messages: StoredMessage[];
+}
+
+export interface SupportStore {
+  /** Every product in the price range; search.ts does the matching and ranking */
+  listProducts(range: PriceRange): Promise<Product[]>;
+  getProduct(productId: string): Promise<Product | null>;
+  getProductFaqs(productId: string): Promise<ProductFaqs | null>;
+  getOrder(orderId: string): Promise<Order | null>;
+  listCustomerOrders(customerId: string): Promise<Order[]>;
+  /** The product IDs of every order, for finding products that are bought together */
+  listOrderBaskets(): Promise<string[][]>;
+  customerExists(customerId: string): Promise<boolean>;
+  getPolicy(policyType: PolicyType): Promise<Record<string, unknown> | null>;
+  /**
+   * The order's live (not rejected) request, newest first across types when `type` is omitted.
+   */
+  findActiveServiceRequest(orderId: string, type?: ServiceRequestType): Promise<ServiceRequest | null>;
+  /** The order's live requests of this type, newest first */
+  listActiveServiceRequests(orderId: string, type: ServiceRequestType): Promise<ServiceRequest[]>;
+  /**
+   * Idempotent: if live requests of this type already hold units of an item that the new
+   * request needs (see serviceRequests.ts), one of them is returned with `created: false`
+   * instead of inserting a duplicate.
+   */
+  createServiceRequest(request: NewServiceRequest): Promise<{ request: ServiceRequest; created: boolean }>;
+  /** Newest first */
+  listRefunds(orderId: string): Promise<Refund[]>;
+  /** Every offer, including ones that have not started or have ended */
+  listOffers(): Promise<Offer[]>;
+  createOtpChallenge(challenge: NewOtpChallenge): Promise<void>;
+  /** Codes sent to the customer since `since` (ISO timestamp), for rate limiting */
+  countOtpChallengesSince(customerId: string, since: string): Promise<number>;
+  /**
+   * Counts one guess against an unused challenge and returns it with the new attempt count;
+   * null if it does not exist or has been used.
+   */
+  recordOtpAttempt(challengeId: string): Promise<OtpChallenge | null>;
+  /** Marks the challenge used; true only for the first caller, so each code signs in once */
+  consumeOtpChallenge(challengeId: string): Promise<boolean>;
+  /** Customer the conversation belongs to, or null if it does not exist yet */
+  getConversationOwner(sessionId: string): Promise<string | null>;
+  /**
+   * Creates the conversation on its first turn, otherwise refreshes its context.
+   * Messages that were already saved (same ID) are skipped.
+   */
+  saveConversationTurn(turn: ConversationTurn): Promise<void>;
+  /** Most recently updated first */
+  listConversations(customerId: string, limit: number): Promise<ConversationSummary[]>;
+  /** Messages oldest first */
+  getConversation(sessionId: string): Promise<Conversation | null>;
+}
@@ -0,0 +1,407 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type {
+  ConversationSummary,
+  NewServiceRequest,
+  Order,
+  OtpChallenge,
+  OrderItem,
+  Product,
+  Refund,
+  ServiceRequest,
+  ServiceRequestType,
+  ShipmentEvent,
+  SupportStore,
+} from "./store.ts";
+import { findConflictingRequest } from "./serviceRequests.ts";
+
+const REQUEST_TABLES: Record<ServiceRequestType, string> = {
+  cancellation: "cancellation_requests",
+  return: "return_requests",
+};
+
+// Postgres unique_violation, raised by the request-units trigger when a concurrent request won the race
+const UNIQUE_VIOLATION = "23505";
+
+interface ServiceRequestRow {
+  id: string;
+  order_id: string;
+  customer_id: string;
+  status: ServiceRequest["status"];
+  reason: string | null;
+  product_ids: string[];
+  quantities: Record<string, number>;
+  created_at: string;
+  updated_at: string;
+}
+
+interface OtpChallengeRow {
+  id: string;
+  customer_id: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+  consumed_at: string | null;
+  created_at: string;
+}
+
+function toOtpChallenge(row: OtpChallengeRow): OtpChallenge {
+  return {
+    id: row.id,
+    customerId: row.customer_id,
+    codeHash: row.code_hash,
+    attempts: row.attempts,
+    expiresAt: row.expires_at,
+    consumedAt: row.consumed_at,
+    createdAt: row.created_at,
+  };
+}
+
+interface OrderRow {
+  order_id: string;
+  customer_id: string;
+  order_status: Order["order_status"];
+  order_date: string;
+  payment_method: Order["payment_method"];
+  shipping_charge: number;
+  total_amount: number;
+  carrier: string | null;
+  tracking_number: string | null;
+  order_items: (OrderItem & { position: number })[];
+  shipment_events: ShipmentEvent[];
+}
+
+const ORDER_COLUMNS = [
+  "order_id, customer_id, order_status, order_date, payment_method, shipping_charge, total_amount, carrier, tracking_number",
+  "order_items(position, product_id, product_name, quantity, unit_price, discount)",
+  "shipment_events(status, location, description, occurred_at)",
+].join(", ");
+
+// Reassembles the nested order shape the tools have always returned
+function toOrder(row: OrderRow): Order {
+  return {
+    order_id: row.order_id,
+    customer_id: row.customer_id,
+    products: [...row.order_items]
+      .sort((a, b) => a.position - b.position)
+      .map(({ position: _position, ...item }) => item),
+    order_status: row.order_status,
+    order_date: row.order_date,
+    payment_method: row.payment_method,
+    shipping_charge: row.shipping_charge,
+    total_amount: row.total_amount,
+    carrier: row.carrier,
+    tracking_number: row.tracking_number,
+    shipment_events: [...row.shipment_events].sort((a, b) => Date.parse(a.occurred_at) - Date.parse(b.occurred_at)),
+  };
+}
+
+// Nullable columns are dropped rather than sent to the model as null
+function toProduct(row: Product & { discount_percentage: number | null }): Product {
+  const { discount_percentage, ...product } = row;
+  return discount_percentage === null ? product : { ...product, discount_percentage };
+}
+
+interface RefundRow extends Omit<Refund, "request_id"> {
+  cancellation_request_id: string | null;
+  return_request_id: string | null;
+}
+
+// The refunds table has one foreign key per request table; the tools see a single request_id
+function toRefund(row: RefundRow): Refund {
+  const { cancellation_request_id, return_request_id, ...refund } = row;
+  return { ...refund, request_id: cancellation_request_id ?? return_request_id };
+}
+
+interface ConversationRow {
+  id: string;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toConversationSummary(row: ConversationRow): ConversationSummary {
+  return { sessionId: row.id, title: row.title, createdAt: row.created_at, updatedAt: row.updated_at };
+}
+
+function toServiceRequest(type: ServiceRequestType, row: ServiceRequestRow): ServiceRequest {
+  return {
+    id: row.id,
+    type,
+    orderId: row.order_id,
+    customerId: row.customer_id,
+    status: row.status,
+    reason: row.reason,
+    productIds: row.product_ids,
+    quantities: row.quantities,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// SupportStore backed by the project's Postgres, using the function's service-role key.
+// Order and product rows keep the snake_case shape of the original JSON data.
+export function createSupabaseStore(): SupportStore {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be configured");
+  }
+  const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+  async function listActive(orderId: string, type: ServiceRequestType) {
+    const { data, error } = await supabase
+      .from(REQUEST_TABLES[type])
+      .select("*")
+      .eq("order_id", orderId)
+      .neq("status", "rejected")
+      .order("created_at", { ascending: false });
+    if (error) throw error;
+    return data.map((row) => toServiceRequest(type, row));
+  }
+
+  // A live request holding units the new one needs; an empty item list covers the whole order
+  async function findConflicting({ orderId, type, productIds, quantities }: NewServiceRequest) {
+    const [requests, { data: lines, error }] = await Promise.all([
+      listActive(orderId, type),
+      supabase.from("order_items").select("product_id, quantity").eq("order_id", orderId),
+    ]);
+    if (error) throw error;
+    return findConflictingRequest(lines, requests, { productIds, quantities });
+  }
+
+  return {
+    async listProducts({ minPrice, maxPrice }) {
+      let query = supabase.from("products").select("*");
+      if (minPrice !== undefined) query = query.gte("price", minPrice);
+      if (maxPrice !== undefined) query = query.lte("price", maxPrice);
+
+      const { data, error } = await query.order("product_id");
+      if (error) throw error;
+      return data.map(toProduct);
+    },
+
+    async getProduct(productId) {
+      const { data, error } = await supabase.from("products").select("*").eq("product_id", productId).maybeSingle();
+      if (error) throw error;
+      return data ? toProduct(data) : null;
+    },
+
+    async getProductFaqs(productId) {
+      const { data, error } = await supabase
+        .from("products")
+        .select("product_id, product_name, product_faqs(position, question, answer)")
+        .eq("product_id", productId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data || data.product_faqs.length === 0) return null;
+      return {
+        product_id: data.product_id,
+        product_name: data.product_name,
+        faqs: [...data.product_faqs]
+          .sort((a: { position: number }, b: { position: number }) => a.position - b.position)
+          .map(({ question, answer }: { question: string; answer: string }) => ({ question, answer })),
+      };
+    },
+
+    async getOrder(orderId) {
+      const { data, error } = await supabase.from("orders").select(ORDER_COLUMNS).eq("order_id", orderId).maybeSingle();
+      if (error) throw error;
+      return data ? toOrder(data) : null;
+    },
+
+    async listCustomerOrders(customerId) {
+      const { data, error } = await supabase
+        .from("orders")
+        .select(ORDER_COLUMNS)
+        .eq("customer_id", customerId)
+        .order("order_id");
+      if (error) throw error;
+      return data.map(toOrder);
+    },
+
+    async listOrderBaskets() {
+      const { data, error } = await supabase.from("order_items").select("order_id, product_id");
+      if (error) throw error;
+      const baskets = new Map<string, string[]>();
+      for (const { order_id, product_id } of data) {
+        baskets.set(order_id, [...(baskets.get(order_id) ?? []), product_id]);
+      }
+      return [...baskets.values()];
+    },
+
+    async customerExists(customerId) {
+      const { count, error } = await supabase
+        .from("orders")
+        .select("order_id", { count: "exact", head: true })
+        .eq("customer_id", customerId);
+      if (error) throw error;
+      return (count ?? 0) > 0;
+    },
+
+    async getPolicy(policyType) {
+      const { data, error } = await supabase.from("policies").select("content").eq("policy_type", policyType).maybeSingle();
+      if (error) throw error;
+      return data?.content ?? null;
+    },
+
+    async findActiveServiceRequest(orderId, type) {
+      const types = type ? [type] : (Object.keys(REQUEST_TABLES) as ServiceRequestType[]);
+      const requests = await Promise.all(types.map((t) => listActive(orderId, t)));
+      return requests.flat().sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null;
+    },
+
+    listActiveServiceRequests(orderId, type) {
+      return listActive(orderId, type);
+    },
+
+    async createServiceRequest(newRequest) {
+      const { type, orderId, customerId, reason, productIds, quantities } = newRequest;
+      const existing = await findConflicting(newRequest);
+      if (existing) {
+        return { request: existing, created: false };
+      }
+
+      const { data, error } = await supabase
+        .from(REQUEST_TABLES[type])
+        .insert({
+          order_id: orderId,
+          customer_id: customerId,
+          reason: reason ?? null,
+          product_ids: productIds,
+          quantities: quantities ?? {},
+        })
+        .select()
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        const request = await findConflicting(newRequest);
+        if (request) return { request, created: false };
+      }
+      if (error) throw error;
+      return { request: toServiceRequest(type, data), created: true };
+    },
+
+    async listRefunds(orderId) {
+      const { data, error } = await supabase
+        .from("refunds")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("initiated_at", { ascending: false });
+      if (error) throw error;
+      return data.map(toRefund);
+    },
+
+    async listOffers() {
+      const { data, error } = await supabase.from("offers").select("*").order("offer_id");
+      if (error) throw error;
+      return data;
+    },
+
+    async createOtpChallenge({ id, customerId, codeHash, expiresAt }) {
+      const { error } = await supabase
+        .from("otp_challenges")
+        .insert({ id, customer_id: customerId, code_hash: codeHash, expires_at: expiresAt });
+      if (error) throw error;
+    },
+
+    async countOtpChallengesSince(customerId, since) {
+      const { count, error } = await supabase
+        .from("otp_challenges")
+        .select("id", { count: "exact", head: true })
+        .eq("customer_id", customerId)
+        .gte("created_at", since);
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    // The increment runs in one UPDATE, so concurrent guesses cannot share an attempt
+    async recordOtpAttempt(challengeId) {
+      const { data, error } = await supabase.rpc("record_otp_attempt", { challenge_id: challengeId }).maybeSingle();
+      if (error) throw error;
+      return data ? toOtpChallenge(data as OtpChallengeRow) : null;
+    },
+
+    async consumeOtpChallenge(challengeId) {
+      const { data, error } = await supabase
+        .from("otp_challenges")
+        .update({ consumed_at: new Date().toISOString() })
+        .eq("id", challengeId)
+        .is("consumed_at", null)
+        .select("id");
+      if (error) throw error;
+      return data.length === 1;
+    },
+
+    async getConversationOwner(sessionId) {
+      const { data, error } = await supabase.from("conversations").select("customer_id").eq("id", sessionId).maybeSingle();
+      if (error) throw error;
+      return data?.customer_id ?? null;
+    },
+
+    async saveConversationTurn({ sessionId, customerId, title, context, messages }) {
+      const { data: existing, error: lookupError } = await supabase
+        .from("conversations")
+        .select("id")
+        .eq("id", sessionId)
+        .maybeSingle();
+      if (lookupError) throw lookupError;
+
+      const { error: conversationError } = existing
+        ? await supabase
+          .from("conversations")
+          .update({ context, updated_at: new Date().toISOString() })
+          .eq("id", sessionId)
+        : await supabase
+          .from("conversations")
+          .insert({ id: sessionId, customer_id: customerId, title, context });
+      if (conversationError) throw conversationError;
+
+      const { error: messagesError } = await supabase.from("conversation_messages").upsert(
+        messages.map((m) => ({
+          id: m.id,
+          conversation_id: sessionId,
+          role: m.role,
+          content: m.content,
+          created_at: m.createdAt,
+        })),
+        { onConflict: "id", ignoreDuplicates: true },
+      );
+      if (messagesError) throw messagesError;
+    },
+
+    async listConversations(customerId, limit) {
+      const { data, error } = await supabase
+        .from("conversations")
+        .select("id, title, created_at, updated_at")
+        .eq("customer_id", customerId)
+        .order("updated_at", { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return data.map(toConversationSummary);
+    },
+
+    async getConversation(sessionId) {
+      const { data, error } = await supabase
+        .from("conversations")
+        .select("*, conversation_messages(id, role, content, created_at)")
+        .eq("id", sessionId)
+        .order("created_at", { referencedTable: "conversation_messages", ascending: true })
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+      return {
+        ...toConversationSummary(data),
+        customerId: data.customer_id,
+        context: data.context,
+        messages: data.conversation_messages.map(
+          (m: { id: string; role: "user" | "assistant"; content: string; created_at: string }) => ({
+            id: m.id,
+            role: m.role,
+            content: m.content,
+            createdAt: m.created_at,
+          }),
+        ),
+      };
+    },
+  };
+}
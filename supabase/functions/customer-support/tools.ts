@@ -0,0 +1,873 @@
+// Agent tools: the schemas the model sees and their implementations, which read and
+// write through a SupportStore.
+// Order tools always act for the signed-in customer; the model never supplies a customer ID.
+import type {
+  Offer,
+  Order,
+  OrderItem,
+  PaymentMethod,
+  PolicyType,
+  Product,
+  ServiceRequest,
+  ServiceRequestStatus,
+  ServiceRequestType,
+  SupportStore,
+} from "./store.ts";
+import { estimateDelivery } from "./delivery.ts";
+import { checkReturnEligibility, getReturnRules } from "./returns.ts";
+import { describeRefund, estimateRefund } from "./refunds.ts";
+import { formatRupees, summarisePayment } from "./money.ts";
+import { decodeCursor, encodeCursor, searchCatalogue, SORT_OPTIONS, type ProductSearch } from "./search.ts";
+import { buildComparison, MAX_COMPARED_PRODUCTS } from "./comparison.ts";
+import { recommendProducts } from "./recommendations.ts";
+import { bestOffer, isOfferActive, priceProduct, quoteOffer } from "./pricing.ts";
+import { createPendingAction, resolveConfirmation, type PendingAction } from "./confirmations.ts";
+import { findRequestedLines, type RequestedLine } from "./serviceRequests.ts";
+
+// Limit to top 5 results for voice-friendly responses
+const SEARCH_RESULT_LIMIT = 5;
+
+// The welcome screen shows a few more than the agent reads out
+const MAX_RECOMMENDATIONS = 10;
+
+// Tool definitions for the AI agent
+export const tools = [
+  {
+    type: "function",
+    function: {
+      name: "searchProducts",
+      description: "Search products by name, description, category, or price range. Matching tolerates misheard names and understands needs (e.g., \"something for running\"); results come best match first with a relevance score unless sortBy says otherwise. Returns five at a time with a next_cursor for the rest. Use this when user wants to find or browse products.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "What the customer asked for, in their words: a product name (even if misheard) or a need" },
+          category: { type: "string", description: "Product category (e.g., Electronics, Clothing, Home, Beauty, Sports)" },
+          minPrice: { type: "number", description: "Minimum price after discount" },
+          maxPrice: { type: "number", description: "Maximum price after discount" },
+          sortBy: {
+            type: "string",
+            enum: [...SORT_OPTIONS],
+            description: "Order of results, e.g. price_low_to_high for \"the cheapest\", rating for \"best rated\", delivery_time for \"fastest delivery\""
+          },
+          inStockOnly: { type: "boolean", description: "Only products that are in stock" },
+          minRating: { type: "number", description: "Minimum star rating, out of 5" },
+          returnEligibleOnly: { type: "boolean", description: "Only products that can be returned" },
+          maxDeliveryDays: { type: "number", description: "Only products delivered within this many days" },
+          cursor: { type: "string", description: "next_cursor from the previous search, to get the next five results. Pass it alone; it remembers the search." }
+        }
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getProductDetails",
+      description: "Get detailed information about a specific product by ID",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string", description: "The product ID (e.g., P1001)" }
+        },
+        required: ["productId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getProductFAQs",
+      description: "Get frequently asked questions for a specific product",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string", description: "The product ID (e.g., P1001)" }
+        },
+        required: ["productId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "compareProducts",
+      description: "Compare 2 to 4 products side by side: price after discount, rating, reviews, stock, delivery time and return eligibility, with the best product on each. Use this for \"which is better\" or \"what's the difference\" questions instead of fetching details one by one.",
+      parameters: {
+        type: "object",
+        properties: {
+          productIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "The product IDs to compare (e.g., [\"P1001\", \"P1002\"])"
+          }
+        },
+        required: ["productIds"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getRecommendations",
+      description: "Suggest products for the signed-in customer from their past orders, what other customers bought alongside them, ratings and stock. Each suggestion comes with a short reason. Use this when the customer asks what they might like or for ideas.",
+      parameters: {
+        type: "object",
+        properties: {
+          limit: { type: "number", description: `How many suggestions to return (default ${SEARCH_RESULT_LIMIT}, at most ${MAX_RECOMMENDATIONS})` }
+        }
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getOffers",
+      description: "List current offers and coupons, or work out what they take off a product. With a productId, each offer comes back with the discount and total it would give (offers do not stack; best_offer saves the most). With a code, checks that coupon. Use this for questions about deals, coupons or \"is there any offer on this?\".",
+      parameters: {
+        type: "object",
+        properties: {
+          productId: { type: "string", description: "The product ID to price the offers for (e.g., P1001)" },
+          code: { type: "string", description: "A coupon code the customer mentioned (e.g., WELCOME250)" },
+          quantity: { type: "number", description: "How many units the customer wants (default 1)" },
+          paymentMethod: {
+            type: "string",
+            enum: ["UPI", "Net Banking", "Credit Card", "Debit Card", "Cash on Delivery"],
+            description: "How the customer plans to pay, for offers tied to a payment method"
+          }
+        }
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "trackOrder",
+      description: "Track the status of one of the signed-in customer's orders: items with quantities and prices, amount paid and payment method, shipment events, carrier, estimated delivery date, any pending cancellation or return request and its latest refund.",
+      parameters: {
+        type: "object",
+        properties: {
+          orderId: { type: "string", description: "The order ID (e.g., O0001)" }
+        },
+        required: ["orderId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getCustomerOrders",
+      description: "Get all orders for the signed-in customer",
+      parameters: {
+        type: "object",
+        properties: {}
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getDeliveryEstimate",
+      description: "Get when an order will arrive (or when it was delivered), whether it is delayed, and its latest carrier scan. Use this for 'when will it arrive?' questions.",
+      parameters: {
+        type: "object",
+        properties: {
+          orderId: { type: "string", description: "The order ID (e.g., O0001)" }
+        },
+        required: ["orderId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getRefundStatus",
+      description: "Get the refunds for one of the signed-in customer's orders: amount, payment method it goes back to, status and the date it should arrive by. Use this for 'where is my refund?' questions.",
+      parameters: {
+        type: "object",
+        properties: {
+          orderId: { type: "string", description: "The order ID (e.g., O0001)" }
+        },
+        required: ["orderId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "initiateCancellation",
+      description: "Prepare a cancellation request for an order that has not shipped, or for some of its items. Nothing is submitted: the result is a pending_action to read back to the customer, and only confirmAction submits it. Asking again for an order with a live request returns that request.",
+      parameters: {
+        type: "object",
+        properties: {
+          orderId: { type: "string", description: "The order ID to cancel" },
+          productIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Product IDs of the items to cancel (e.g., P1001); omit to cancel the whole order"
+          },
+          quantities: {
+            type: "object",
+            additionalProperties: { type: "integer" },
+            description: "Units per item when the customer wants fewer than they ordered, keyed by product ID (e.g., {\"P1001\": 1}); omit for everything ordered"
+          },
+          reason: { type: "string", description: "Why the customer wants to cancel, if they said" }
+        },
+        required: ["orderId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "initiateReturn",
+      description: "Prepare a return request for a delivered order, or for some of its items. Each item is checked against the return window and non-returnable rules, and only eligible items are included. Nothing is submitted: the result is a pending_action to read back to the customer, and only confirmAction submits it. Asking again for an order with a live request returns that request.",
+      parameters: {
+        type: "object",
+        properties: {
+          orderId: { type: "string", description: "The order ID to return" },
+          productIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Product IDs of the items to return (e.g., P1001); omit to return the whole order"
+          },
+          quantities: {
+            type: "object",
+            additionalProperties: { type: "integer" },
+            description: "Units per item when the customer wants fewer than they ordered, keyed by product ID (e.g., {\"P1001\": 1}); omit for everything ordered"
+          },
+          reason: { type: "string", description: "Why the customer wants to return it, if they said" }
+        },
+        required: ["orderId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "confirmAction",
+      description: "Submit the cancellation or return prepared on an earlier turn. Only call this after the customer has explicitly said yes to the read-back.",
+      parameters: {
+        type: "object",
+        properties: {
+          orderId: { type: "string", description: "The order ID of the action awaiting confirmation that the customer agreed to" }
+        },
+        required: ["orderId"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "getPolicy",
+      description: "Get company policy information for returns, refunds, cancellations, or delivery",
+      parameters: {
+        type: "object",
+        properties: {
+          policyType: { 
+            type: "string", 
+            enum: ["return", "refund", "cancellation", "delivery"],
+            description: "Type of policy to retrieve" 
+          }
+        },
+        required: ["policyType"]
+      }
+    }
+  }
+];
+
+// Tool implementations
+
+const POLICY_TYPES: PolicyType[] = ["return", "refund", "cancellation", "delivery"];
+
+interface SearchProductsArgs extends Omit<ProductSearch, "text"> {
+  query?: string;
+  cursor?: string;
+}
+
+async function searchProducts({ query, cursor, ...params }: SearchProductsArgs, store: SupportStore) {
+  let search: ProductSearch = { ...params, text: query };
+  let offset = 0;
+  if (cursor) {
+    const page = decodeCursor(cursor);
+    if (!page) {
+      return { error: "These search results are no longer available. Run the search again." };
+    }
+    ({ search, offset } = page);
+  }
+  if (search.sortBy && !SORT_OPTIONS.includes(search.sortBy)) {
+    return { error: `Unknown sort option ${search.sortBy}. Use one of: ${SORT_OPTIONS.join(", ")}` };
+  }
+
+  // A discount never raises the price, so only the lower bound can be applied to list prices up front
+  const products = await store.listProducts({ minPrice: search.minPrice });
+  const matches = searchCatalogue(products, search);
+  const end = offset + SEARCH_RESULT_LIMIT;
+  return {
+    search: { ...search, sortBy: search.sortBy ?? "relevance" },
+    products: matches
+      .slice(offset, end)
+      .map(({ product, score }) => ({ ...product, pricing: priceProduct(product), relevance: score })),
+    // 1-based positions, so the agent can say "results 6 to 10 of 23"
+    showing_from: Math.min(offset + 1, matches.length),
+    showing_to: Math.min(end, matches.length),
+    total_matches: matches.length,
+    next_cursor: end < matches.length ? encodeCursor(search, end) : null,
+  };
+}
+
+async function getProductDetails(productId: string, store: SupportStore) {
+  const product = await store.getProduct(productId);
+  if (!product) {
+    return { error: `Product with ID ${productId} not found` };
+  }
+  return { ...product, pricing: priceProduct(product) };
+}
+
+async function getProductFAQs(productId: string, store: SupportStore) {
+  const productFaq = await store.getProductFaqs(productId);
+  if (!productFaq) {
+    return { error: `FAQs for product ${productId} not found` };
+  }
+  return productFaq;
+}
+
+async function compareProducts(productIds: unknown, store: SupportStore) {
+  const ids = Array.isArray(productIds) ? [...new Set(productIds.filter((id): id is string => typeof id === "string"))] : [];
+  if (ids.length < 2 || ids.length > MAX_COMPARED_PRODUCTS) {
+    return { error: `Choose between 2 and ${MAX_COMPARED_PRODUCTS} products to compare` };
+  }
+  const products = await Promise.all(ids.map((id) => store.getProduct(id)));
+  const missing = ids.filter((_, index) => !products[index]);
+  if (missing.length > 0) {
+    return { error: `Product with ID ${missing.join(", ")} not found` };
+  }
+  return buildComparison(products as Product[]);
+}
+
+async function getRecommendations(limit: unknown, customerId: string, store: SupportStore) {
+  const count = typeof limit === "number" && limit >= 1
+    ? Math.min(Math.floor(limit), MAX_RECOMMENDATIONS)
+    : SEARCH_RESULT_LIMIT;
+  const [orders, baskets, products] = await Promise.all([
+    store.listCustomerOrders(customerId),
+    store.listOrderBaskets(),
+    store.listProducts({}),
+  ]);
+  return {
+    recommendations: recommendProducts(orders, baskets, products, count)
+      .map(({ product, reason }) => ({ ...product, pricing: priceProduct(product), reason })),
+  };
+}
+
+function describeOffer(offer: Offer) {
+  return {
+    offer_id: offer.offer_id,
+    code: offer.code,
+    title: offer.title,
+    description: offer.description,
+    valid_until: offer.valid_until,
+  };
+}
+
+async function getOffers(
+  params: { productId?: string; code?: string; quantity?: number; paymentMethod?: PaymentMethod },
+  store: SupportStore
+) {
+  const offers = await store.listOffers();
+  let candidates = offers.filter((offer) => isOfferActive(offer));
+  if (params.code) {
+    const code = params.code.trim().toUpperCase();
+    const coupon = offers.find((offer) => offer.code?.toUpperCase() === code);
+    if (!coupon) {
+      return { error: `Coupon ${code} is not valid` };
+    }
+    if (!isOfferActive(coupon)) {
+      return { error: `Coupon ${coupon.code} is only valid from ${coupon.valid_from} to ${coupon.valid_until}` };
+    }
+    candidates = [coupon];
+  }
+
+  if (!params.productId) {
+    return { offers: candidates.map(describeOffer) };
+  }
+  const product = await store.getProduct(params.productId);
+  if (!product) {
+    return { error: `Product with ID ${params.productId} not found` };
+  }
+  const quantity = typeof params.quantity === "number" && params.quantity >= 1 ? Math.floor(params.quantity) : 1;
+  const quotes = candidates
+    .map((offer) => quoteOffer(offer, { product, quantity, paymentMethod: params.paymentMethod }))
+    .sort((a, b) => Number(b.applicable) - Number(a.applicable) || b.discount - a.discount);
+  return {
+    product_id: product.product_id,
+    product_name: product.product_name,
+    quantity,
+    pricing: priceProduct(product),
+    offers: quotes,
+    best_offer: bestOffer(quotes),
+  };
+}
+
+// Other customers' orders are reported as missing so their IDs cannot be probed
+function orderNotFound(orderId: string) {
+  return { error: `Order ${orderId} not found` };
+}
+
+// How each request status is described to the customer
+const REQUEST_STATUS_LABELS: Record<ServiceRequestStatus, string> = {
+  requested: "received and awaiting approval",
+  approved: "approved",
+  pickup_scheduled: "approved with a pickup scheduled",
+  refunded: "completed and refunded",
+  rejected: "rejected",
+};
+
+function describeServiceRequest(request: ServiceRequest) {
+  return {
+    request_id: request.id,
+    type: request.type,
+    status: request.status,
+    status_label: REQUEST_STATUS_LABELS[request.status],
+    reason: request.reason,
+    product_ids: request.productIds,
+    quantities: request.quantities,
+    requested_at: request.createdAt,
+  };
+}
+
+// Reply when a live request already covers every requested item, so no duplicate is created
+function existingRequestResponse(request: ServiceRequest) {
+  return {
+    success: true,
+    message: `A ${request.type} request for order ${request.orderId} already exists and is ${REQUEST_STATUS_LABELS[request.status]}. No new request was created.`,
+    request: describeServiceRequest(request),
+  };
+}
+
+// An order item a cancellation or return would cover, and how many of its units
+interface IncludedItem {
+  product_id: string;
+  product_name: string | null;
+  quantity: number;
+}
+
+// The included items that cover fewer units than were ordered, as stored on the request
+function partialQuantities(order: Order, included: IncludedItem[]): Record<string, number> {
+  const quantities: Record<string, number> = {};
+  for (const item of included) {
+    const ordered = order.products.find((p) => p.product_id === item.product_id)?.quantity;
+    if (ordered !== undefined && item.quantity < ordered) quantities[item.product_id] = item.quantity;
+  }
+  return quantities;
+}
+
+// "order O0001" when every unit is included, otherwise the included items by name
+function describeRequestedItems(order: Order, included: IncludedItem[]) {
+  const partial = partialQuantities(order, included);
+  if (included.length === order.products.length && Object.keys(partial).length === 0) {
+    return `order ${order.order_id}`;
+  }
+  const names = included.map((item) =>
+    item.product_id in partial ? `${item.quantity} of ${item.product_name}` : item.product_name
+  );
+  return `${names.join(", ")} from order ${order.order_id}`;
+}
+
+// Why `quantity` units of the order line cannot be requested; null when they can
+function quantityProblem(item: OrderItem, quantity: unknown, requested: RequestedLine | undefined): string | null {
+  if (quantity === undefined) return null;
+  if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity < 1) {
+    return "The quantity must be a whole number of at least 1";
+  }
+  if (quantity > item.quantity) {
+    return `Only ${item.quantity} of this item ${item.quantity === 1 ? "was" : "were"} ordered`;
+  }
+  if (requested && quantity > requested.remaining) {
+    const { remaining, request } = requested;
+    return `Only ${remaining} of this item ${remaining === 1 ? "is" : "are"} not already in ${request.type} request ${request.id}`;
+  }
+  return null;
+}
+
+// The order's items with units already in a live request of this type
+async function findRequestedItems(order: Order, type: ServiceRequestType, store: SupportStore) {
+  return findRequestedLines(order.products, await store.listActiveServiceRequests(order.order_id, type));
+}
+
+// The request that already holds every unit of one of the items, for answering a repeat request
+function findCoveringRequest(productIds: string[], requestedItems: Map<string, RequestedLine>) {
+  return productIds.map((productId) => requestedItems.get(productId)).find((item) => item?.remaining === 0)?.request;
+}
+
+function alreadyRequestedReason(request: ServiceRequest) {
+  return `Already in ${request.type} request ${request.id}, which is ${REQUEST_STATUS_LABELS[request.status]}`;
+}
+
+function skippedItemsNote(skipped: number) {
+  return skipped > 0 ? ` ${skipped} other item(s) could not be included; see each item's reason.` : "";
+}
+
+async function getOrderProducts(order: Order, store: SupportStore) {
+  const products = await Promise.all(order.products.map((item) => store.getProduct(item.product_id)));
+  return products.filter((product): product is Product => product !== null);
+}
+
+async function trackOrder(orderId: string, customerId: string, store: SupportStore) {
+  const order = await store.getOrder(orderId);
+  if (!order) {
+    return { error: `Order ${orderId} not found` };
+  }
+  if (order.customer_id !== customerId) {
+    return orderNotFound(orderId);
+  }
+  const [pendingRequest, products, refunds] = await Promise.all([
+    store.findActiveServiceRequest(orderId),
+    getOrderProducts(order, store),
+    store.listRefunds(orderId),
+  ]);
+  const { estimated_delivery_date, delivery_status } = estimateDelivery(order, products);
+  return {
+    ...order,
+    delivery_estimate: { estimated_delivery_date, delivery_status },
+    payment_summary: summarisePayment(order),
+    ...(pendingRequest ? { pending_request: describeServiceRequest(pendingRequest) } : {}),
+    ...(refunds.length > 0 ? { refund: describeRefund(refunds[0]) } : {}),
+  };
+}
+
+async function getDeliveryEstimate(orderId: string, customerId: string, store: SupportStore) {
+  const order = await store.getOrder(orderId);
+  if (!order) {
+    return { error: `Order ${orderId} not found` };
+  }
+  if (order.customer_id !== customerId) {
+    return orderNotFound(orderId);
+  }
+  const estimate = estimateDelivery(order, await getOrderProducts(order, store));
+  return { order_id: order.order_id, order_status: order.order_status, order_date: order.order_date, ...estimate };
+}
+
+async function getRefundStatus(orderId: string, customerId: string, store: SupportStore) {
+  const order = await store.getOrder(orderId);
+  if (!order) {
+    return { error: `Order ${orderId} not found` };
+  }
+  if (order.customer_id !== customerId) {
+    return orderNotFound(orderId);
+  }
+
+  const refunds = await store.listRefunds(orderId);
+  if (refunds.length > 0) {
+    return { order_id: orderId, refunds: refunds.map((refund) => describeRefund(refund)) };
+  }
+
+  // No refund yet; an open request explains why one is on its way
+  const pendingRequest = await store.findActiveServiceRequest(orderId);
+  if (!pendingRequest) {
+    return { order_id: orderId, message: `No refund has been issued for order ${orderId}.` };
+  }
+  return {
+    order_id: orderId,
+    message: `No refund has been issued for order ${orderId} yet. Its ${pendingRequest.type} request is ${REQUEST_STATUS_LABELS[pendingRequest.status]}, and the refund starts once it is approved.`,
+    pending_request: describeServiceRequest(pendingRequest),
+  };
+}
+
+async function getCustomerOrders(customerId: string, store: SupportStore) {
+  const customerOrders = await store.listCustomerOrders(customerId);
+  if (customerOrders.length === 0) {
+    return { message: `No orders found for customer ${customerId}` };
+  }
+  return customerOrders.map((order) => ({ ...order, payment_summary: summarisePayment(order) }));
+}
+
+// What a cancellation or return would cover, or the reply explaining why it cannot go ahead
+type RequestReview =
+  | { refusal: Record<string, unknown> }
+  | { order: Order; included: IncludedItem[]; details: Record<string, unknown> };
+
+async function reviewCancellation(
+  orderId: string,
+  customerId: string,
+  productIds: string[] | undefined,
+  quantities: Record<string, number> | undefined,
+  store: SupportStore
+): Promise<RequestReview> {
+  const order = await store.getOrder(orderId);
+  if (!order) {
+    return { refusal: { error: `Order ${orderId} not found` } };
+  }
+  if (order.customer_id !== customerId) {
+    return { refusal: orderNotFound(orderId) };
+  }
+  if (order.order_status === 'Cancelled') {
+    return { refusal: { message: `Order ${orderId} has already been cancelled.` } };
+  }
+  if (order.order_status === 'Delivered') {
+    return { refusal: { message: `Order ${orderId} has already been delivered. Please use return instead.` } };
+  }
+  if (order.order_status === 'Out for Delivery') {
+    return { refusal: { message: `Order ${orderId} is currently out for delivery and cannot be cancelled. You may refuse delivery or return after receiving.` } };
+  }
+
+  const requestedIds = [...new Set(productIds?.length ? productIds : order.products.map((item) => item.product_id))];
+  const requestedItems = await findRequestedItems(order, "cancellation", store);
+
+  // Items ship together, so the order's status decides for every item; only the selection can fail
+  const items = requestedIds.map((productId) => {
+    const item = order.products.find((p) => p.product_id === productId);
+    if (!item) {
+      return { product_id: productId, product_name: null, quantity: 0, cancellable: false, reason: `Not part of order ${orderId}` };
+    }
+    const requested = requestedItems.get(productId);
+    const reason = requested?.remaining === 0
+      ? alreadyRequestedReason(requested.request)
+      : quantityProblem(item, quantities?.[productId], requested);
+    const quantity = quantities?.[productId] ?? requested?.remaining ?? item.quantity;
+    return { product_id: productId, product_name: item.product_name, quantity, cancellable: reason === null, reason };
+  });
+  const cancellable = items.filter((item) => item.cancellable);
+  // Nothing new to cancel: answer with the request that already covers it
+  const existing = findCoveringRequest(requestedIds, requestedItems);
+  if (cancellable.length === 0 && existing) {
+    return { refusal: existingRequestResponse(existing) };
+  }
+  if (cancellable.length === 0) {
+    return { refusal: { success: false, message: `None of the requested items from order ${orderId} can be cancelled. See each item's reason.`, items } };
+  }
+  return { order, included: cancellable, details: { items } };
+}
+
+async function reviewReturn(
+  orderId: string,
+  customerId: string,
+  productIds: string[] | undefined,
+  quantities: Record<string, number> | undefined,
+  store: SupportStore
+): Promise<RequestReview> {
+  const order = await store.getOrder(orderId);
+  if (!order) {
+    return { refusal: { error: `Order ${orderId} not found` } };
+  }
+  if (order.customer_id !== customerId) {
+    return { refusal: orderNotFound(orderId) };
+  }
+  if (order.order_status !== 'Delivered') {
+    return { refusal: { message: `Order ${orderId} cannot be returned as it has not been delivered yet. Current status: ${order.order_status}` } };
+  }
+
+  // Checked before eligibility so a repeat request is answered even after the window closes
+  const requestedIds = productIds?.length ? productIds : order.products.map((item) => item.product_id);
+  const requestedItems = await findRequestedItems(order, "return", store);
+  const existing = findCoveringRequest(requestedIds, requestedItems);
+  if (existing && requestedIds.every((productId) => requestedItems.get(productId)?.remaining === 0)) {
+    return { refusal: existingRequestResponse(existing) };
+  }
+
+  const [products, policy] = await Promise.all([getOrderProducts(order, store), store.getPolicy("return")]);
+  const eligibility = checkReturnEligibility(
+    order,
+    products,
+    getReturnRules(policy),
+    productIds?.length ? productIds : undefined,
+  );
+  const { delivered_on, return_by } = eligibility;
+  const items = eligibility.items.map((item) => {
+    const line = order.products.find((p) => p.product_id === item.product_id);
+    if (!line) return { ...item, quantity: 0 };
+    const requested = requestedItems.get(item.product_id);
+    const reason = requested?.remaining === 0
+      ? alreadyRequestedReason(requested.request)
+      : item.reason ?? quantityProblem(line, quantities?.[item.product_id], requested);
+    const quantity = quantities?.[item.product_id] ?? requested?.remaining ?? line.quantity;
+    return { ...item, quantity, returnable: reason === null, reason };
+  });
+  const returnable = items.filter((item) => item.returnable);
+  if (returnable.length === 0 && existing) {
+    return { refusal: existingRequestResponse(existing) };
+  }
+  if (returnable.length === 0) {
+    return {
+      refusal: {
+        success: false,
+        message: `None of the requested items from order ${orderId} can be returned. See each item's reason.`,
+        delivered_on,
+        return_by,
+        items,
+      },
+    };
+  }
+  return { order, included: returnable, details: { delivered_on, return_by, items } };
+}
+
+const REQUEST_REVIEWS: Record<ServiceRequestType, typeof reviewCancellation> = {
+  cancellation: reviewCancellation,
+  return: reviewReturn,
+};
+
+const SUBMITTED_MESSAGES: Record<ServiceRequestType, string> = {
+  cancellation: "You will receive a confirmation email once it is approved, and the refund will be processed within 3-5 business days after that.",
+  return: "Once it is approved, a pickup will be scheduled within 2-3 business days. Please ensure items are unused and in original packaging.",
+};
+
+// Sentence the customer hears about the money a request would give back
+function describeEstimatedRefund(
+  order: Order,
+  type: ServiceRequestType,
+  productIds: string[],
+  quantities: Record<string, number>,
+) {
+  const amount = estimateRefund(order, type, productIds, quantities);
+  if (amount === 0) {
+    return { estimated_refund: formatRupees(0), note: " Nothing has been paid yet, so there is nothing to refund." };
+  }
+  // Cash on delivery is refunded by bank transfer
+  const destination = !order.payment_method || order.payment_method === "Cash on Delivery"
+    ? "your bank account"
+    : `your ${order.payment_method}`;
+  return {
+    estimated_refund: formatRupees(amount),
+    note: ` Estimated refund: ${formatRupees(amount)} to ${destination}.`,
+  };
+}
+
+// Phase one: check the request and stage it for the customer to confirm
+async function prepareServiceRequest(
+  type: ServiceRequestType,
+  orderId: string,
+  customerId: string,
+  productIds: string[] | undefined,
+  quantities: Record<string, number> | undefined,
+  reason: string | undefined,
+  store: SupportStore
+) {
+  // Quantities alone name the items too, so "one of the mugs" does not cover the whole order
+  const selectedIds = productIds?.length ? productIds : Object.keys(quantities ?? {});
+  const review = await REQUEST_REVIEWS[type](orderId, customerId, selectedIds, quantities, store);
+  if ("refusal" in review) {
+    return review.refusal;
+  }
+
+  const { order, included, details } = review;
+  const skipped = (details.items as unknown[]).length - included.length;
+  const partial = partialQuantities(order, included);
+  const refund = describeEstimatedRefund(order, type, included.map((item) => item.product_id), partial);
+  return {
+    confirmation_required: true,
+    message: `Nothing has been submitted yet. Read this back and ask the customer to confirm: ${type} of ${describeRequestedItems(order, included)}.${refund.note}${skippedItemsNote(skipped)} Call confirmAction only after they say yes.`,
+    estimated_refund: refund.estimated_refund,
+    pending_action: createPendingAction({
+      type,
+      order_id: order.order_id,
+      product_ids: included.map((item) => item.product_id),
+      quantities: partial,
+      product_names: included.map((item) => item.product_name ?? item.product_id),
+      reason: reason ?? null,
+    }),
+    ...details,
+  };
+}
+
+// Phase two: re-check the staged request (the order may have moved on) and submit it
+async function confirmAction(
+  confirmedOrderId: unknown,
+  pendingAction: PendingAction | null,
+  token: string | null,
+  customerId: string,
+  store: SupportStore,
+) {
+  const confirmation = resolveConfirmation(pendingAction, confirmedOrderId, token);
+  if ("error" in confirmation) {
+    return confirmation;
+  }
+
+  const { type, order_id: orderId, product_ids: productIds, quantities, reason } = confirmation.action;
+  const review = await REQUEST_REVIEWS[type](orderId, customerId, productIds, quantities, store);
+  if ("refusal" in review) {
+    return review.refusal;
+  }
+
+  const { order, included, details } = review;
+  const { request, created } = await store.createServiceRequest({
+    type,
+    orderId,
+    customerId,
+    reason: reason ?? undefined,
+    productIds: included.map((item) => item.product_id),
+    quantities: partialQuantities(order, included),
+  });
+  if (!created) {
+    return existingRequestResponse(request);
+  }
+  const refund = describeEstimatedRefund(order, type, request.productIds, request.quantities);
+  return { 
+    success: true, 
+    message: `I have submitted the ${type} request for ${describeRequestedItems(order, included)}.${refund.note} ${SUBMITTED_MESSAGES[type]}`,
+    request: describeServiceRequest(request),
+    estimated_refund: refund.estimated_refund,
+    ...details,
+    order
+  };
+}
+
+async function getPolicy(policyType: string, store: SupportStore) {
+  const policy = POLICY_TYPES.includes(policyType as PolicyType) ? await store.getPolicy(policyType as PolicyType) : null;
+  if (!policy) {
+    return { error: `Policy type '${policyType}' not found. Available types: return, refund, cancellation, delivery` };
+  }
+  return policy;
+}
+
+/**
+ * Runs a tool the model asked for. `customerId` is the authenticated session's customer;
+ * any customerId the model put in `args` is ignored. `pendingAction` is the action the
+ * stored conversation held when the turn started, the only one confirmAction may commit, and
+ * `confirmedToken` the token the customer's message confirmed (see confirmations.ts).
+ */
+export async function executeToolCall(
+  name: string,
+  args: Record<string, unknown>,
+  customerId: string,
+  store: SupportStore,
+  pendingAction: PendingAction | null = null,
+  confirmedToken: string | null = null
+): Promise<unknown> {
+  switch (name) {
+    case "searchProducts":
+      return searchProducts(args as Parameters<typeof searchProducts>[0], store);
+    case "getProductDetails":
+      return getProductDetails(args.productId as string, store);
+    case "getProductFAQs":
+      return getProductFAQs(args.productId as string, store);
+    case "compareProducts":
+      return compareProducts(args.productIds, store);
+    case "getRecommendations":
+      return getRecommendations(args.limit, customerId, store);
+    case "getOffers":
+      return getOffers(args as Parameters<typeof getOffers>[0], store);
+    case "trackOrder":
+      return trackOrder(args.orderId as string, customerId, store);
+    case "getDeliveryEstimate":
+      return getDeliveryEstimate(args.orderId as string, customerId, store);
+    case "getCustomerOrders":
+      return getCustomerOrders(customerId, store);
+    case "getRefundStatus":
+      return getRefundStatus(args.orderId as string, customerId, store);
+    case "initiateCancellation":
+    case "initiateReturn":
+      return prepareServiceRequest(
+        name === "initiateCancellation" ? "cancellation" : "return",
+        args.orderId as string,
+        customerId,
+        args.productIds as string[] | undefined,
+        args.quantities as Record<string, number> | undefined,
+        args.reason as string | undefined,
+        store
+      );
+    case "confirmAction":
+      return confirmAction(args.orderId, pendingAction, confirmedToken, customerId, store);
+    case "getPolicy":
+      return getPolicy(args.policyType as string, store);
+    default:
+      return { error: `Unknown tool: ${name}` };
+  }
+}
@@ -0,0 +1,72 @@
+-- Cancellation and return requests raised by customers through the support agent.
+-- Written by the customer-support edge function with the service role; RLS keeps them
+-- out of reach of the public (anon) key.
+
+create type public.service_request_status as enum (
+  'requested',
+  'approved',
+  'pickup_scheduled',
+  'refunded',
+  'rejected'
+);
+
+create table public.cancellation_requests (
+  id uuid primary key default gen_random_uuid(),
+  order_id text not null,
+  customer_id text not null,
+  status public.service_request_status not null default 'requested',
+  reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.return_requests (
+  id uuid primary key default gen_random_uuid(),
+  order_id text not null,
+  customer_id text not null,
+  status public.service_request_status not null default 'requested',
+  reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Idempotency: at most one live request per order. A rejected request frees the order
+-- for a new one; every other status (including refunded) blocks duplicates.
+create unique index cancellation_requests_active_order_idx
+  on public.cancellation_requests (order_id) where status <> 'rejected';
+create unique index return_requests_active_order_idx
+  on public.return_requests (order_id) where status <> 'rejected';
+
+create index cancellation_requests_customer_idx on public.cancellation_requests (customer_id);
+create index return_requests_customer_idx on public.return_requests (customer_id);
+
+-- Lifecycle: requested -> approved -> (pickup_scheduled ->) refunded, with rejection
+-- possible until the refund is issued. refunded and rejected are final.
+create or replace function public.enforce_service_request_lifecycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status and not (
+    (old.status = 'requested' and new.status in ('approved', 'rejected'))
+    or (old.status = 'approved' and new.status in ('pickup_scheduled', 'refunded', 'rejected'))
+    or (old.status = 'pickup_scheduled' and new.status in ('refunded', 'rejected'))
+  ) then
+    raise exception 'Invalid service request status change: % -> %', old.status, new.status;
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger cancellation_requests_lifecycle
+  before update on public.cancellation_requests
+  for each row execute function public.enforce_service_request_lifecycle();
+
+create trigger return_requests_lifecycle
+  before update on public.return_requests
+  for each row execute function public.enforce_service_request_lifecycle();
+
+alter table public.cancellation_requests enable row level security;
+alter table public.return_requests enable row level security;
@@ -0,0 +1,62 @@
+-- Catalog, order and policy data the support agent reads. Previously bundled into the
+-- edge function as JSON; load the initial rows with supabase/scripts/seed.ts.
+
+create table public.products (
+  product_id text primary key,
+  product_name text not null,
+  category text not null,
+  price numeric(12, 2) not null check (price >= 0),
+  stock_available integer not null default 0 check (stock_available >= 0),
+  rating numeric(2, 1),
+  review_count integer not null default 0,
+  description text not null default '',
+  discount_percentage integer check (discount_percentage between 0 and 100),
+  return_eligible boolean not null default true,
+  delivery_time_days integer not null
+);
+
+create index products_category_idx on public.products (lower(category));
+
+create table public.product_faqs (
+  id bigint generated always as identity primary key,
+  product_id text not null references public.products (product_id) on delete cascade,
+  position integer not null,
+  question text not null,
+  answer text not null,
+  unique (product_id, position)
+);
+
+create table public.orders (
+  order_id text primary key,
+  customer_id text not null,
+  order_status text not null
+    check (order_status in ('Placed', 'Shipped', 'Out for Delivery', 'Delivered', 'Cancelled')),
+  order_date date not null
+);
+
+create index orders_customer_idx on public.orders (customer_id);
+
+create table public.order_items (
+  order_id text not null references public.orders (order_id) on delete cascade,
+  position integer not null,
+  product_id text not null references public.products (product_id),
+  product_name text not null,
+  primary key (order_id, position)
+);
+
+-- Policy documents keyed by type (return, refund, cancellation, delivery)
+create table public.policies (
+  policy_type text primary key,
+  content jsonb not null
+);
+
+alter table public.cancellation_requests
+  add constraint cancellation_requests_order_id_fkey foreign key (order_id) references public.orders (order_id);
+alter table public.return_requests
+  add constraint return_requests_order_id_fkey foreign key (order_id) references public.orders (order_id);
+
+alter table public.products enable row level security;
+alter table public.product_faqs enable row level security;
+alter table public.orders enable row level security;
+alter table public.order_items enable row level security;
+alter table public.policies enable row level security;
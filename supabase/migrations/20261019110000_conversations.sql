@@ -0,0 +1,26 @@
+-- Conversation history, written by the customer-support edge function after every turn
+-- so customers can continue on another device and agents can review past sessions.
+
+create table public.conversations (
+  id uuid primary key,
+  customer_id text not null,
+  title text,
+  context jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index conversations_customer_updated_idx on public.conversations (customer_id, updated_at desc);
+
+create table public.conversation_messages (
+  id uuid primary key,
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index conversation_messages_conversation_idx on public.conversation_messages (conversation_id, created_at);
+
+alter table public.conversations enable row level security;
+alter table public.conversation_messages enable row level security;
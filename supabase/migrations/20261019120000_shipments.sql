@@ -0,0 +1,19 @@
+-- Shipment tracking: the carrier handling each order and the scan events it reports.
+
+alter table public.orders
+  add column carrier text,
+  add column tracking_number text;
+
+create table public.shipment_events (
+  id bigint generated always as identity primary key,
+  order_id text not null references public.orders (order_id) on delete cascade,
+  status text not null check (status in ('Shipped', 'In Transit', 'Out for Delivery', 'Delivered')),
+  location text not null,
+  description text not null default '',
+  occurred_at timestamptz not null,
+  unique (order_id, occurred_at, status)
+);
+
+create index shipment_events_order_idx on public.shipment_events (order_id, occurred_at);
+
+alter table public.shipment_events enable row level security;
@@ -0,0 +1,12 @@
+-- Items covered by each cancellation or return request, so a return can leave out items
+-- that are not eligible or that the customer wants to keep.
+
+alter table public.cancellation_requests
+  add column product_ids text[] not null default '{}';
+alter table public.return_requests
+  add column product_ids text[] not null default '{}';
+
+-- Return rules the agent checks before recording a return (also in the seed data)
+update public.policies
+set content = content || '{"window_days": 7, "non_returnable_categories": ["Beauty & Personal Care"]}'::jsonb
+where policy_type = 'return';
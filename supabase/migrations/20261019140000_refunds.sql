@@ -0,0 +1,30 @@
+-- Refunds issued for cancelled and returned orders, each settling the request that led to it.
+
+create type public.refund_status as enum (
+  'initiated',
+  'processing',
+  'completed',
+  'failed'
+);
+
+create table public.refunds (
+  refund_id text primary key,
+  order_id text not null references public.orders (order_id) on delete cascade,
+  request_type text not null check (request_type in ('cancellation', 'return')),
+  -- At most one, matching request_type; both are null for refunds that predate request records
+  cancellation_request_id uuid references public.cancellation_requests (id),
+  return_request_id uuid references public.return_requests (id),
+  amount numeric(12, 2) not null check (amount >= 0),
+  method text not null check (method in ('UPI', 'Net Banking', 'Credit Card', 'Debit Card')),
+  status public.refund_status not null default 'initiated',
+  initiated_at timestamptz not null default now(),
+  -- Set once the refund completed or failed
+  processed_at timestamptz,
+  check (request_type = 'cancellation' or cancellation_request_id is null),
+  check (request_type = 'return' or return_request_id is null),
+  check ((status in ('completed', 'failed')) = (processed_at is not null))
+);
+
+create index refunds_order_idx on public.refunds (order_id, initiated_at desc);
+
+alter table public.refunds enable row level security;
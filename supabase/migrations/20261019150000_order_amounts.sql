@@ -0,0 +1,33 @@
+-- What customers paid: quantities and prices per item, plus shipping, total and payment method.
+
+alter table public.order_items
+  add column quantity integer not null default 1 check (quantity > 0),
+  add column unit_price numeric(12, 2),
+  add column discount numeric(12, 2) not null default 0 check (discount >= 0);
+
+-- Items recorded before prices were take the current catalogue price
+update public.order_items i
+set unit_price = p.price
+from public.products p
+where p.product_id = i.product_id and i.unit_price is null;
+
+alter table public.order_items
+  alter column unit_price set not null,
+  add constraint order_items_unit_price_check check (unit_price >= 0);
+
+alter table public.orders
+  add column payment_method text
+    check (payment_method in ('UPI', 'Net Banking', 'Credit Card', 'Debit Card', 'Cash on Delivery')),
+  add column shipping_charge numeric(12, 2) not null default 0 check (shipping_charge >= 0),
+  add column total_amount numeric(12, 2);
+
+update public.orders o
+set total_amount = o.shipping_charge + coalesce(
+  (select sum(i.unit_price * i.quantity - i.discount) from public.order_items i where i.order_id = o.order_id),
+  0
+)
+where o.total_amount is null;
+
+alter table public.orders
+  alter column total_amount set not null,
+  add constraint orders_total_amount_check check (total_amount >= 0);
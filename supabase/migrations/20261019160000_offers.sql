@@ -0,0 +1,25 @@
+-- Offers and coupons the agent can quote. At most one applies to a purchase; offers do not stack.
+
+create table public.offers (
+  offer_id text primary key,
+  -- Coupon the customer enters; null for offers applied automatically
+  code text unique,
+  title text not null,
+  description text not null,
+  discount_type text not null check (discount_type in ('percentage', 'flat')),
+  -- Percent off, or rupees off for flat offers
+  value numeric(12, 2) not null check (value > 0),
+  max_discount numeric(12, 2) check (max_discount > 0),
+  min_order_value numeric(12, 2) not null default 0 check (min_order_value >= 0),
+  -- Empty arrays mean every category / any payment method
+  categories text[] not null default '{}',
+  payment_methods text[] not null default '{}'
+    check (payment_methods <@ array['UPI', 'Net Banking', 'Credit Card', 'Debit Card', 'Cash on Delivery']),
+  valid_from date not null,
+  valid_until date not null,
+  check (discount_type = 'percentage' or max_discount is null),
+  check (discount_type = 'flat' or value <= 100),
+  check (valid_from <= valid_until)
+);
+
+alter table public.offers enable row level security;
@@ -0,0 +1,28 @@
+-- Pending sign-in passcodes. Kept server-side so wrong guesses are counted, each code works
+-- once and requests can be rate-limited per customer.
+
+create table public.otp_challenges (
+  id uuid primary key,
+  customer_id text not null,
+  -- Keyed hash; the code itself is never stored
+  code_hash text not null,
+  attempts integer not null default 0 check (attempts >= 0),
+  expires_at timestamptz not null,
+  consumed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index otp_challenges_customer_created_idx on public.otp_challenges (customer_id, created_at desc);
+
+alter table public.otp_challenges enable row level security;
+
+-- Counts one guess atomically; returns nothing once the challenge has been used
+create function public.record_otp_attempt(challenge_id uuid)
+returns setof public.otp_challenges
+language sql
+as $$
+  update public.otp_challenges
+  set attempts = attempts + 1
+  where id = challenge_id and consumed_at is null
+  returning *;
+$$;
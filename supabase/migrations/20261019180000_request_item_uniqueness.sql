@@ -0,0 +1,47 @@
+-- Idempotency per item instead of per order: a live request blocks new requests of the same
+-- type for the items it covers, so the rest of the order can still be cancelled or returned.
+-- A request with no product_ids (recorded before items were) covers the whole order.
+
+drop index public.cancellation_requests_active_order_idx;
+drop index public.return_requests_active_order_idx;
+
+create index cancellation_requests_order_idx on public.cancellation_requests (order_id);
+create index return_requests_order_idx on public.return_requests (order_id);
+
+-- Raises unique_violation when a live request in the same table shares an item with the new
+-- one. The advisory lock serialises inserts per order so concurrent requests cannot both pass.
+create or replace function public.enforce_one_live_request_per_item()
+returns trigger
+language plpgsql
+as $$
+declare
+  conflicting_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtext(tg_table_name || ':' || new.order_id));
+
+  execute format(
+    'select id from public.%I
+     where order_id = $1
+       and status <> ''rejected''
+       and (cardinality(product_ids) = 0 or cardinality($2) = 0 or product_ids && $2)
+     limit 1',
+    tg_table_name
+  )
+  into conflicting_id
+  using new.order_id, new.product_ids;
+
+  if conflicting_id is not null then
+    raise exception 'Request % already covers items of order %', conflicting_id, new.order_id
+      using errcode = 'unique_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger cancellation_requests_one_live_per_item
+  before insert on public.cancellation_requests
+  for each row execute function public.enforce_one_live_request_per_item();
+
+create trigger return_requests_one_live_per_item
+  before insert on public.return_requests
+  for each row execute function public.enforce_one_live_request_per_item();
@@ -0,0 +1,7 @@
+-- Part of an order line can be cancelled or returned (e.g. one of three units). Maps product
+-- ID to units for the items requested in part; items not listed cover everything ordered.
+
+alter table public.cancellation_requests
+  add column quantities jsonb not null default '{}';
+alter table public.return_requests
+  add column quantities jsonb not null default '{}';
@@ -0,0 +1,50 @@
+-- Counts units instead of items: a live request holds quantities ->> product_id units of each
+-- item it covers (every unit ordered when the item is not listed), so cancelling 1 of 2 units
+-- leaves the other unit free for a later request of the same type.
+
+create or replace function public.enforce_one_live_request_per_item()
+returns trigger
+language plpgsql
+as $$
+declare
+  conflicting_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtext(tg_table_name || ':' || new.order_id));
+
+  -- The newest live request holding units of an item the new request needs more of than are left
+  execute format(
+    'with held as (
+       select i.product_id, i.quantity as ordered, r.id, r.created_at,
+              least(coalesce((r.quantities ->> i.product_id)::integer, i.quantity), i.quantity) as units
+       from public.order_items i
+       join public.%I r
+         on r.order_id = i.order_id
+        and r.status <> ''rejected''
+        and (cardinality(r.product_ids) = 0 or i.product_id = any (r.product_ids))
+       where i.order_id = $1
+     ),
+     wanted as (
+       select i.product_id,
+              least(coalesce(($3 ->> i.product_id)::integer, i.quantity), i.quantity) as units
+       from public.order_items i
+       where i.order_id = $1
+         and (cardinality($2) = 0 or i.product_id = any ($2))
+     )
+     select h.id
+     from held h
+     join wanted w using (product_id)
+     where w.units > h.ordered - (select sum(other.units) from held other where other.product_id = h.product_id)
+     order by h.created_at desc
+     limit 1',
+    tg_table_name
+  )
+  into conflicting_id
+  using new.order_id, new.product_ids, new.quantities;
+
+  if conflicting_id is not null then
+    raise exception 'Request % already holds units of order % that the new request needs', conflicting_id, new.order_id
+      using errcode = 'unique_violation';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,67 @@
+// Loads the bundled JSON data into the support tables. Safe to re-run: every row is upserted.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... deno run --allow-env --allow-net supabase/scripts/seed.ts
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import products from "../functions/customer-support/data/products.json" with { type: "json" };
+import faqs from "../functions/customer-support/data/faqs.json" with { type: "json" };
+import orders from "../functions/customer-support/data/orders.json" with { type: "json" };
+import policies from "../functions/customer-support/data/policies.json" with { type: "json" };
+import refunds from "../functions/customer-support/data/refunds.json" with { type: "json" };
+import offers from "../functions/customer-support/data/offers.json" with { type: "json" };
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL");
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+async function upsert(table: string, rows: Record<string, unknown>[], onConflict: string) {
+  const { error } = await supabase.from(table).upsert(rows, { onConflict });
+  if (error) {
+    throw new Error(`Seeding ${table} failed: ${error.message}`);
+  }
+  console.log(`Seeded ${rows.length} rows into ${table}`);
+}
+
+// Parents before children so foreign keys resolve
+await upsert(
+  "products",
+  products.map((p) => ({ discount_percentage: null, ...p })),
+  "product_id",
+);
+await upsert(
+  "product_faqs",
+  faqs.flatMap((f) => f.faqs.map((faq, position) => ({ product_id: f.product_id, position, ...faq }))),
+  "product_id,position",
+);
+await upsert(
+  "orders",
+  orders.map(({ products: _items, shipment_events: _events, ...order }) => order),
+  "order_id",
+);
+await upsert(
+  "order_items",
+  orders.flatMap((o) => o.products.map((item, position) => ({ order_id: o.order_id, position, ...item }))),
+  "order_id,position",
+);
+await upsert(
+  "shipment_events",
+  orders.flatMap((o) => o.shipment_events.map((event) => ({ order_id: o.order_id, ...event }))),
+  "order_id,occurred_at,status",
+);
+// The bundled refunds predate request records, so they link to no request
+await upsert(
+  "refunds",
+  refunds.map(({ request_id: _requestId, ...refund }) => refund),
+  "refund_id",
+);
+await upsert("offers", offers, "offer_id");
+await upsert(
+  "policies",
+  Object.entries(policies).map(([policy_type, content]) => ({ policy_type, content })),
+  "policy_type",
+);